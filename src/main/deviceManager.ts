@@ -0,0 +1,798 @@
+import EventEmitter from 'events';
+import noble, { Characteristic, Peripheral } from '@abandonware/noble';
+import { DeviceConnectionState, DeviceKind, DeviceMetric, DeviceSnapshot } from '../types/domain';
+import { SensorContext, SensorReader, classifyServices, findProfile } from './sensorProfiles';
+import { StatusPayload, TelemetryPayload } from './trainerController';
+
+export interface ReconnectState {
+  deviceId: string;
+  cancelled: boolean;
+}
+
+interface ManagedDevice extends SensorContext {
+  id: string;
+  kind: DeviceKind;
+  peripheral: Peripheral;
+  name?: string;
+  identifier?: string;
+  signalStrength?: number;
+  batteryLevel?: number;
+  firmwareVersion?: string;
+  serialNumber?: string;
+  state: DeviceConnectionState;
+  lastSeen: number;
+  measurement?: Characteristic;
+  reader?: SensorReader;
+  reconnect?: ReconnectState;
+  disconnectRequested: boolean;
+}
+
+// 700x25c, the most common road wheel.
+export const DEFAULT_WHEEL_CIRCUMFERENCE_MM = 2105;
+const WHEEL_CIRCUMFERENCE_RANGE_MM = { minimum: 1000, maximum: 3000 };
+const DEVICE_STALE_MS = 15000;
+
+// A source that has not reported a metric for this long yields it to the next one.
+const SOURCE_STALE_MS = 3000;
+
+// Roughly two minutes of retries before a dropout is given up on.
+const RECONNECT_DELAYS_MS = [1000, 2000, 4000, 8000, 15000, 30000, 30000, 30000];
+const RECONNECT_SCAN_TIMEOUT_MS = 8000;
+
+// A remembered device that could not be auto-connected is tried again after this.
+const AUTO_CONNECT_RETRY_MS = 30000;
+
+// Optional services read from every connected device.
+const BATTERY_SERVICE_UUID = '180f';
+const BATTERY_LEVEL_UUID = '2a19';
+const DEVICE_INFORMATION_SERVICE_UUID = '180a';
+const SERIAL_NUMBER_UUID = '2a25';
+const FIRMWARE_REVISION_UUID = '2a26';
+
+export const LOW_BATTERY_PERCENT = 20;
+const RSSI_POLL_INTERVAL_MS = 10000;
+
+const KIND_ORDER: DeviceKind[] = ['trainer', 'heartRateMonitor', 'powerMeter', 'cadenceSensor'];
+
+/**
+ * Which device kinds may supply each metric, best first. The trainer's
+ * cadence is only an estimate, and a wheel sensor's speed depends on the
+ * rider's tyre, so both rank below dedicated sources.
+ */
+const DEFAULT_SOURCE_PRIORITY: Record<DeviceMetric, DeviceKind[]> = {
+  power: ['trainer', 'powerMeter'],
+  cadence: ['cadenceSensor', 'powerMeter', 'trainer'],
+  heartRate: ['heartRateMonitor', 'trainer'],
+  speed: ['trainer', 'cadenceSensor'],
+  resistance: ['trainer'],
+  distance: ['trainer'],
+};
+
+const TELEMETRY_METRICS: Partial<Record<keyof TelemetryPayload, DeviceMetric>> = {
+  powerWatts: 'power',
+  averagePowerWatts: 'power',
+  cadenceRpm: 'cadence',
+  averageCadenceRpm: 'cadence',
+  heartRateBpm: 'heartRate',
+  speedKph: 'speed',
+  averageSpeedKph: 'speed',
+  resistanceLevel: 'resistance',
+  distanceMeters: 'distance',
+};
+
+const formatIdentifier = (raw?: string): string | undefined => {
+  if (!raw) return undefined;
+  const cleaned = raw.replace(/[^a-fA-F0-9]/g, '').toLowerCase();
+  if (!cleaned) return undefined;
+  const tail = cleaned.slice(-6);
+  if (tail.length < 4) {
+    return cleaned.toUpperCase();
+  }
+  const segments = tail.match(/.{1,2}/g);
+  if (!segments) {
+    return tail.toUpperCase();
+  }
+  return segments.join(':').toUpperCase();
+};
+
+const getPeripheralId = (peripheral: Peripheral): string => peripheral.id ?? peripheral.uuid;
+
+const subscribe = async (characteristic: Characteristic, listener: (data: Buffer) => void): Promise<void> => {
+  characteristic.removeAllListeners('data');
+  characteristic.on('data', listener);
+  await new Promise<void>((resolve, reject) => {
+    characteristic.subscribe((error) => {
+      if (error) reject(error);
+      else resolve();
+    });
+  });
+};
+
+/**
+ * Keeps every nearby and connected BLE device keyed by id. Sensors are
+ * connected through their profile; the trainer is tracked here too but its
+ * link is owned by the trainer controller, which reports its state back.
+ * Telemetry from all devices is merged by per-metric source priority.
+ */
+export class DeviceManager extends EventEmitter {
+  private readonly devices = new Map<string, ManagedDevice>();
+
+  private readonly sourcePriority: Record<DeviceMetric, DeviceKind[]> = { ...DEFAULT_SOURCE_PRIORITY };
+
+  // last report per `${kind}:${metric}`
+  private readonly sourceSeenAt = new Map<string, number>();
+
+  private discovering = false;
+
+  private reconnectScans = 0;
+
+  private defaultWheelCircumferenceMm = DEFAULT_WHEEL_CIRCUMFERENCE_MM;
+
+  // remembered device id → kind, for devices that connect as soon as they advertise
+  private readonly autoConnect = new Map<string, DeviceKind | undefined>();
+
+  private readonly autoConnectHeldUntil = new Map<string, number>();
+
+  private rssiTimer?: NodeJS.Timeout;
+
+  private readonly handleDiscoverBound = (peripheral: Peripheral) => {
+    this.track(peripheral);
+  };
+
+  get scanning(): boolean {
+    return this.discovering;
+  }
+
+  get wheelCircumferenceMm(): number {
+    return this.connectedOf('cadenceSensor')[0]?.wheelCircumferenceMm ?? this.defaultWheelCircumferenceMm;
+  }
+
+  async startDiscovery(): Promise<void> {
+    if (this.discovering) {
+      this.emitDevices();
+      return;
+    }
+
+    const begin = async (): Promise<void> => {
+      this.discovering = true;
+      for (const device of [...this.devices.values()]) {
+        if (!this.isActive(device)) {
+          this.devices.delete(device.id);
+        }
+      }
+      this.emitDevices();
+      noble.removeListener('discover', this.handleDiscoverBound);
+      noble.on('discover', this.handleDiscoverBound);
+      try {
+        await noble.startScanningAsync([], true);
+        this.emitStatus({ scanning: true, message: 'Scanning for devices' });
+      } catch (error) {
+        noble.removeListener('discover', this.handleDiscoverBound);
+        this.discovering = false;
+        throw error;
+      }
+    };
+
+    if (noble._state === 'poweredOn') {
+      await begin();
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const handleState = async (state: string) => {
+        if (state === 'poweredOn') {
+          noble.removeListener('stateChange', handleState);
+          try {
+            await begin();
+            resolve();
+          } catch (error) {
+            reject(error);
+          }
+        } else if (state === 'unsupported' || state === 'unauthorized') {
+          reject(new Error(`Bluetooth adapter state ${state}`));
+        }
+      };
+      noble.on('stateChange', handleState);
+    });
+  }
+
+  async stopDiscovery(): Promise<void> {
+    if (!this.discovering) return;
+    this.discovering = false;
+    noble.removeListener('discover', this.handleDiscoverBound);
+    try {
+      await noble.stopScanningAsync();
+    } catch (error) {
+      // ignore stop scanning errors
+    }
+    this.emitStatus({ scanning: false });
+  }
+
+  /**
+   * Records an advertisement. Peripherals that match no known profile are
+   * ignored unless they are already tracked.
+   */
+  track(peripheral: Peripheral, kind?: DeviceKind): void {
+    const id = getPeripheralId(peripheral);
+    const existing = this.devices.get(id);
+    const serviceUuids = (peripheral.advertisement?.serviceUuids || []).map((uuid) => uuid.toLowerCase());
+    const resolvedKind = existing?.kind ?? kind ?? classifyServices(serviceUuids)?.kind ?? this.autoConnect.get(id);
+    if (!resolvedKind || (!existing && peripheral.connectable === false)) {
+      return;
+    }
+
+    const device: ManagedDevice = existing ?? {
+      id,
+      kind: resolvedKind,
+      peripheral,
+      state: 'discovered',
+      lastSeen: Date.now(),
+      disconnectRequested: false,
+    };
+    if (!device.measurement) {
+      device.peripheral = peripheral;
+    }
+    device.name = (peripheral.advertisement?.localName || '').trim() || device.name;
+    device.identifier = formatIdentifier(peripheral.uuid || peripheral.id);
+    if (typeof peripheral.rssi === 'number') {
+      device.signalStrength = peripheral.rssi;
+    }
+    device.lastSeen = Date.now();
+    if (device.kind === 'cadenceSensor' && device.wheelCircumferenceMm === undefined) {
+      device.wheelCircumferenceMm = this.defaultWheelCircumferenceMm;
+    }
+    this.devices.set(id, device);
+    this.emitDevices();
+    this.maybeAutoConnect(device);
+  }
+
+  getPeripheral(deviceId: string): Peripheral | undefined {
+    return this.devices.get(deviceId)?.peripheral;
+  }
+
+  kindOf(deviceId: string): DeviceKind | undefined {
+    return this.devices.get(deviceId)?.kind;
+  }
+
+  getSnapshot(deviceId: string): DeviceSnapshot | undefined {
+    const device = this.devices.get(deviceId);
+    return device ? this.toSnapshot(device) : undefined;
+  }
+
+  connectedOf(kind: DeviceKind): DeviceSnapshot[] {
+    return [...this.devices.values()]
+      .filter((device) => device.kind === kind && device.state === 'connected')
+      .map((device) => this.toSnapshot(device));
+  }
+
+  isKindConnected(kind: DeviceKind): boolean {
+    return this.connectedOf(kind).length > 0;
+  }
+
+  /**
+   * Used by the trainer controller, which owns the trainer link, to keep the
+   * trainer's entry in step.
+   */
+  setState(deviceId: string, state: DeviceConnectionState): void {
+    const device = this.devices.get(deviceId);
+    if (!device || device.state === state) {
+      return;
+    }
+    device.state = state;
+    if (state !== 'connected') {
+      this.forgetSource(device.kind);
+    }
+    this.emitDevices();
+    if (state === 'connected') {
+      this.emit('device-connected', this.toSnapshot(device));
+      void this.readDetails(device);
+      this.startRssiPolling();
+    }
+  }
+
+  /**
+   * Connects a sensor through its profile. Resolves with the device label.
+   */
+  async connect(deviceId: string): Promise<string> {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      throw new Error('Device not found');
+    }
+    const profile = findProfile(device.kind);
+    if (!profile?.createReader) {
+      throw new Error(`${profile?.label ?? 'Device'} cannot be connected as a sensor`);
+    }
+    if (device.state === 'connected') {
+      return this.describe(device);
+    }
+    this.cancelReconnect(device);
+
+    await this.stopDiscovery().catch(() => undefined);
+    await this.bind(device, device.peripheral);
+    return this.describe(device);
+  }
+
+  async disconnect(deviceId: string): Promise<void> {
+    this.holdAutoConnect(deviceId);
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return;
+    }
+    if (this.cancelReconnect(device)) {
+      this.emitStatus({ message: `${this.profileLabel(device)} disconnected` });
+    }
+    if (!device.measurement) {
+      return;
+    }
+    device.disconnectRequested = true;
+    this.setState(device.id, 'disconnecting');
+    const { peripheral } = device;
+    try {
+      if (peripheral.state === 'connected' || peripheral.state === 'connecting') {
+        await peripheral.disconnectAsync();
+      }
+    } catch (error) {
+      // ignore disconnect errors
+    }
+  }
+
+  async disconnectKind(kind: DeviceKind): Promise<void> {
+    const ids = [...this.devices.values()]
+      .filter((device) => device.kind === kind && (device.measurement || device.reconnect))
+      .map((device) => device.id);
+    for (const id of ids) {
+      await this.disconnect(id);
+    }
+  }
+
+  setAutoConnect(deviceId: string, enabled: boolean, kind?: DeviceKind): void {
+    if (!enabled) {
+      this.autoConnect.delete(deviceId);
+      return;
+    }
+    this.autoConnect.set(deviceId, kind ?? this.kindOf(deviceId));
+    this.autoConnectHeldUntil.delete(deviceId);
+  }
+
+  /**
+   * Keeps a remembered device from being auto-connected again this session,
+   * e.g. after the rider disconnected it on purpose.
+   */
+  holdAutoConnect(deviceId: string): void {
+    this.autoConnectHeldUntil.set(deviceId, Number.POSITIVE_INFINITY);
+  }
+
+  /**
+   * Reorders the sources for one metric. Kinds left out never supply it.
+   */
+  setSourcePriority(metric: DeviceMetric, kinds: DeviceKind[]): void {
+    this.sourcePriority[metric] = [...kinds];
+  }
+
+  /**
+   * Sets the wheel size of one cadence sensor, or of every connected one
+   * and those connected later when no id is given.
+   */
+  setWheelCircumference(millimeters: number, deviceId?: string): number {
+    if (!Number.isFinite(millimeters)) {
+      throw new Error('Wheel circumference must be a number');
+    }
+    const clamped = Math.round(
+      Math.max(WHEEL_CIRCUMFERENCE_RANGE_MM.minimum, Math.min(millimeters, WHEEL_CIRCUMFERENCE_RANGE_MM.maximum)),
+    );
+    const targets = [...this.devices.values()].filter(
+      (device) => device.kind === 'cadenceSensor' && (deviceId ? device.id === deviceId : device.state === 'connected'),
+    );
+    if (!deviceId) {
+      this.defaultWheelCircumferenceMm = clamped;
+    }
+    targets.forEach((device) => {
+      device.wheelCircumferenceMm = clamped;
+    });
+    this.emitDevices();
+    return clamped;
+  }
+
+  /**
+   * Merges one device's readings into telemetry. Each metric is kept only
+   * when no better-ranked source has reported it recently.
+   */
+  report(deviceId: string, telemetry: TelemetryPayload, now = Date.now()): void {
+    const kind = this.devices.get(deviceId)?.kind;
+    if (!kind) {
+      return;
+    }
+    this.emit('reading', kind, telemetry);
+
+    const filtered: TelemetryPayload = {};
+    (Object.keys(telemetry) as (keyof TelemetryPayload)[]).forEach((field) => {
+      const metric = TELEMETRY_METRICS[field];
+      if (metric) {
+        this.sourceSeenAt.set(`${kind}:${metric}`, now);
+        if (!this.isPreferredSource(kind, metric, now)) {
+          return;
+        }
+      }
+      filtered[field] = telemetry[field];
+    });
+
+    if (Object.keys(filtered).length) {
+      this.emit('telemetry', filtered);
+    }
+  }
+
+  /**
+   * Retries with growing delays until the device is back, the attempts run
+   * out or the reconnect is cancelled. Each attempt rediscovers the
+   * peripheral by id, since a stale handle rarely reconnects.
+   */
+  async reconnect(
+    state: ReconnectState,
+    label: string,
+    bind: (peripheral: Peripheral) => Promise<void>,
+  ): Promise<boolean> {
+    for (let attempt = 0; attempt < RECONNECT_DELAYS_MS.length; attempt += 1) {
+      await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAYS_MS[attempt]));
+      if (state.cancelled) {
+        return false;
+      }
+      let found: Peripheral | undefined;
+      try {
+        found = await this.rediscover(state.deviceId, RECONNECT_SCAN_TIMEOUT_MS);
+        if (state.cancelled) {
+          return false;
+        }
+        await bind(found);
+        return true;
+      } catch (error) {
+        if (found && found.state === 'connected') {
+          await found.disconnectAsync().catch(() => undefined);
+        }
+        const remaining = RECONNECT_DELAYS_MS.length - attempt - 1;
+        this.emitStatus({
+          message: `${label} reconnect attempt ${attempt + 1} failed${remaining ? ', retrying' : ''}`,
+        });
+      }
+    }
+    return false;
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.rssiTimer) {
+      clearInterval(this.rssiTimer);
+      this.rssiTimer = undefined;
+    }
+    await this.stopDiscovery().catch(() => undefined);
+    const sensors = [...this.devices.values()].filter((device) => device.kind !== 'trainer');
+    for (const device of sensors) {
+      await this.disconnect(device.id).catch(() => undefined);
+    }
+    this.devices.clear();
+    this.sourceSeenAt.clear();
+    this.emitDevices();
+  }
+
+  private async bind(device: ManagedDevice, peripheral: Peripheral): Promise<void> {
+    const profile = findProfile(device.kind);
+    if (!profile?.createReader || !profile.measurementUuid) {
+      throw new Error(`${profile?.label ?? 'Device'} cannot be connected as a sensor`);
+    }
+    device.disconnectRequested = false;
+    device.peripheral = peripheral;
+    this.setState(device.id, 'pairing');
+
+    try {
+      await peripheral.connectAsync();
+
+      const { characteristics } = await peripheral.discoverSomeServicesAndCharacteristicsAsync(
+        [profile.serviceUuid],
+        [profile.measurementUuid],
+      );
+      const measurement = characteristics.find(
+        (characteristic) => characteristic.uuid.toLowerCase() === profile.measurementUuid,
+      );
+      if (!measurement) {
+        await peripheral.disconnectAsync().catch(() => undefined);
+        throw new Error(`${profile.label} does not expose required characteristics`);
+      }
+
+      device.measurement = measurement;
+      device.reader = profile.createReader(device);
+      peripheral.once('disconnect', () => {
+        this.handleDisconnect(device, peripheral);
+      });
+      await subscribe(measurement, (data: Buffer) => this.handleMeasurement(device, data));
+    } catch (error) {
+      device.measurement = undefined;
+      device.reader = undefined;
+      this.setState(device.id, 'disconnected');
+      throw error;
+    }
+
+    this.setState(device.id, 'connected');
+    this.emitStatus({ message: `${profile.label} connected (${this.describe(device)})` });
+  }
+
+  private handleMeasurement(device: ManagedDevice, data: Buffer): void {
+    const telemetry = device.reader?.read(data, Date.now());
+    if (telemetry) {
+      this.report(device.id, telemetry);
+    }
+  }
+
+  private handleDisconnect(device: ManagedDevice, peripheral: Peripheral): void {
+    if (device.peripheral !== peripheral || !device.measurement) {
+      return;
+    }
+    device.measurement = undefined;
+    device.reader = undefined;
+    this.setState(device.id, 'disconnected');
+    const label = this.profileLabel(device);
+    const suffix = ` (${this.describe(device)})`;
+
+    if (device.reconnect) {
+      return;
+    }
+    if (device.disconnectRequested) {
+      device.disconnectRequested = false;
+      this.emitStatus({ message: `${label} disconnected${suffix}` });
+      return;
+    }
+
+    const state: ReconnectState = { deviceId: device.id, cancelled: false };
+    device.reconnect = state;
+    this.emitDevices();
+    this.emitStatus({ message: `${label} connection lost${suffix}, reconnecting` });
+    void this.reconnect(state, label, (found) => this.bind(device, found)).then((reconnected) => {
+      if (device.reconnect === state) {
+        device.reconnect = undefined;
+        this.emitDevices();
+      }
+      if (!reconnected && !state.cancelled) {
+        this.emitStatus({ message: `${label} disconnected${suffix}` });
+      }
+    });
+  }
+
+  /**
+   * Reads the optional Battery and Device Information services. Devices
+   * without them keep those fields empty.
+   */
+  private async readDetails(device: ManagedDevice): Promise<void> {
+    const { peripheral } = device;
+    let characteristics: Characteristic[];
+    try {
+      ({ characteristics } = await peripheral.discoverSomeServicesAndCharacteristicsAsync(
+        [BATTERY_SERVICE_UUID, DEVICE_INFORMATION_SERVICE_UUID],
+        [BATTERY_LEVEL_UUID, SERIAL_NUMBER_UUID, FIRMWARE_REVISION_UUID],
+      ));
+    } catch (error) {
+      return;
+    }
+    const find = (uuid: string) => characteristics.find((characteristic) => characteristic.uuid.toLowerCase() === uuid);
+    const readText = async (characteristic?: Characteristic): Promise<string | undefined> => {
+      if (!characteristic) return undefined;
+      try {
+        const value = await characteristic.readAsync();
+        return value.toString('utf8').replace(/\0/g, '').trim() || undefined;
+      } catch (error) {
+        return undefined;
+      }
+    };
+
+    device.firmwareVersion = (await readText(find(FIRMWARE_REVISION_UUID))) ?? device.firmwareVersion;
+    device.serialNumber = (await readText(find(SERIAL_NUMBER_UUID))) ?? device.serialNumber;
+
+    const battery = find(BATTERY_LEVEL_UUID);
+    if (battery) {
+      try {
+        const value = await battery.readAsync();
+        if (value.length) this.updateBattery(device, value.readUInt8(0));
+      } catch (error) {
+        // some devices only notify
+      }
+      if (battery.properties.includes('notify')) {
+        await subscribe(battery, (data: Buffer) => {
+          if (data.length) this.updateBattery(device, data.readUInt8(0));
+        }).catch(() => undefined);
+      }
+    }
+
+    if (device.peripheral === peripheral && device.state === 'connected') {
+      this.emitDevices();
+      this.emit('device-info', this.toSnapshot(device));
+    }
+  }
+
+  private updateBattery(device: ManagedDevice, level: number): void {
+    const previous = device.batteryLevel;
+    device.batteryLevel = Math.min(level, 100);
+    if (device.batteryLevel === previous) {
+      return;
+    }
+    if (device.batteryLevel <= LOW_BATTERY_PERCENT && (previous === undefined || previous > LOW_BATTERY_PERCENT)) {
+      this.emitStatus({ message: `${this.profileLabel(device)} battery low (${device.batteryLevel} %, ${this.describe(device)})` });
+    }
+    this.emitDevices();
+  }
+
+  private startRssiPolling(): void {
+    if (this.rssiTimer) {
+      return;
+    }
+    this.rssiTimer = setInterval(() => {
+      void this.pollRssi();
+    }, RSSI_POLL_INTERVAL_MS);
+  }
+
+  private async pollRssi(): Promise<void> {
+    const connected = [...this.devices.values()].filter((device) => device.state === 'connected');
+    if (!connected.length) {
+      clearInterval(this.rssiTimer);
+      this.rssiTimer = undefined;
+      return;
+    }
+    let changed = false;
+    for (const device of connected) {
+      try {
+        const rssi = await device.peripheral.updateRssiAsync();
+        if (rssi !== device.signalStrength) {
+          device.signalStrength = rssi;
+          changed = true;
+        }
+      } catch (error) {
+        // the link may be going away; the next poll tries again
+      }
+    }
+    if (changed) {
+      this.emitDevices();
+    }
+  }
+
+  /**
+   * Asks for a remembered device to be connected. The request is held for a
+   * while so repeated advertisements don't pile up attempts.
+   */
+  private maybeAutoConnect(device: ManagedDevice): void {
+    if (!this.autoConnect.has(device.id) || device.reconnect) {
+      return;
+    }
+    if (device.state !== 'discovered' && device.state !== 'disconnected') {
+      return;
+    }
+    const now = Date.now();
+    if (now < (this.autoConnectHeldUntil.get(device.id) ?? 0)) {
+      return;
+    }
+    this.autoConnectHeldUntil.set(device.id, now + AUTO_CONNECT_RETRY_MS);
+    this.emit('auto-connect', this.toSnapshot(device));
+  }
+
+  private cancelReconnect(device: ManagedDevice): boolean {
+    if (!device.reconnect) {
+      return false;
+    }
+    device.reconnect.cancelled = true;
+    device.reconnect = undefined;
+    return true;
+  }
+
+  private rediscover(deviceId: string, timeoutMs: number): Promise<Peripheral> {
+    return new Promise<Peripheral>((resolve, reject) => {
+      let settled = false;
+      const finish = (peripheral?: Peripheral, error?: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutHandle);
+        noble.removeListener('discover', onDiscover);
+        this.reconnectScans -= 1;
+        if (!this.reconnectScans && !this.discovering) {
+          noble.stopScanningAsync().catch(() => undefined);
+        }
+        if (peripheral) resolve(peripheral);
+        else reject(error ?? new Error('Device not found'));
+      };
+      const onDiscover = (peripheral: Peripheral) => {
+        if (getPeripheralId(peripheral) === deviceId) {
+          finish(peripheral);
+        }
+      };
+      const timeoutHandle = setTimeout(() => finish(undefined, new Error('Device not found')), timeoutMs);
+
+      this.reconnectScans += 1;
+      noble.on('discover', onDiscover);
+      if (!this.discovering) {
+        // unfiltered so several devices can look for themselves at the same time
+        noble.startScanningAsync([], true).catch((error: Error) => finish(undefined, error));
+      }
+    });
+  }
+
+  private isPreferredSource(kind: DeviceKind, metric: DeviceMetric, now: number): boolean {
+    const ranking = this.sourcePriority[metric];
+    const rank = ranking.indexOf(kind);
+    if (rank === -1) {
+      return false;
+    }
+    return ranking.slice(0, rank).every((better) => {
+      const seenAt = this.sourceSeenAt.get(`${better}:${metric}`);
+      return seenAt === undefined || now - seenAt > SOURCE_STALE_MS;
+    });
+  }
+
+  private forgetSource(kind: DeviceKind): void {
+    if (this.connectedOf(kind).length) {
+      return;
+    }
+    for (const key of [...this.sourceSeenAt.keys()]) {
+      if (key.startsWith(`${kind}:`)) {
+        this.sourceSeenAt.delete(key);
+      }
+    }
+  }
+
+  private isActive(device: ManagedDevice): boolean {
+    return (device.state !== 'discovered' && device.state !== 'disconnected') || Boolean(device.reconnect);
+  }
+
+  private profileLabel(device: ManagedDevice): string {
+    return findProfile(device.kind)?.label ?? 'Device';
+  }
+
+  labelOf(deviceId: string): string | undefined {
+    const device = this.devices.get(deviceId);
+    return device ? this.describe(device) : undefined;
+  }
+
+  private describe(device: ManagedDevice): string {
+    const parts = [device.name || this.profileLabel(device)];
+    if (device.identifier) {
+      parts.push(device.identifier);
+    }
+    return parts.join(' • ');
+  }
+
+  private toSnapshot(device: ManagedDevice): DeviceSnapshot {
+    return {
+      id: device.id,
+      kind: device.kind,
+      name: device.name || this.profileLabel(device),
+      identifier: device.identifier ?? device.id,
+      signalStrength: device.signalStrength,
+      batteryLevel: device.batteryLevel,
+      firmwareVersion: device.firmwareVersion,
+      serialNumber: device.serialNumber,
+      metrics: [...(findProfile(device.kind)?.metrics ?? [])],
+      state: device.state,
+      lastSeenAt: new Date(device.lastSeen).toISOString(),
+      ...(device.kind === 'cadenceSensor' ? { wheelCircumferenceMm: device.wheelCircumferenceMm } : {}),
+    };
+  }
+
+  private emitDevices(): void {
+    const now = Date.now();
+    for (const device of [...this.devices.values()]) {
+      if (!this.isActive(device) && now - device.lastSeen > DEVICE_STALE_MS) {
+        this.devices.delete(device.id);
+      }
+    }
+
+    const snapshots = [...this.devices.values()]
+      .map((device) => this.toSnapshot(device))
+      .sort((a, b) => {
+        const aConnected = a.state === 'connected';
+        const bConnected = b.state === 'connected';
+        if (aConnected !== bConnected) return aConnected ? -1 : 1;
+        if (a.kind !== b.kind) return KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind);
+        return a.name.localeCompare(b.name);
+      });
+
+    this.emit('devices', snapshots);
+  }
+
+  private emitStatus(partial: Partial<Pick<StatusPayload, 'message' | 'scanning'>>): void {
+    this.emit('status', partial);
+  }
+}
+
+export default DeviceManager;
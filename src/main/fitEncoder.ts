@@ -0,0 +1,468 @@
+import { SessionBlockProgress, SessionRecord, TelemetrySample } from '../types/domain';
+
+// FIT epoch is 1989-12-31T00:00:00Z, see the Garmin FIT SDK.
+const FIT_EPOCH_OFFSET_S = 631065600;
+const FIT_PROTOCOL_VERSION = 0x20;
+const FIT_PROFILE_VERSION = 2132;
+const FIT_HEADER_SIZE = 14;
+
+// Gaps between samples longer than this are treated as paused time.
+const MAX_SAMPLE_GAP_S = 5;
+
+const FIT_MANUFACTURER_DEVELOPMENT = 255;
+const FIT_FILE_ACTIVITY = 4;
+const FIT_SPORT_CYCLING = 2;
+const FIT_SUB_SPORT_INDOOR_CYCLING = 6;
+const FIT_EVENT_TIMER = 0;
+const FIT_EVENT_LAP = 9;
+const FIT_EVENT_SESSION = 8;
+const FIT_EVENT_ACTIVITY = 26;
+const FIT_EVENT_TYPE_START = 0;
+const FIT_EVENT_TYPE_STOP = 1;
+const FIT_EVENT_TYPE_STOP_ALL = 4;
+const FIT_LAP_TRIGGER_TIME = 1;
+const FIT_LAP_TRIGGER_SESSION_END = 7;
+const FIT_SESSION_TRIGGER_ACTIVITY_END = 0;
+const FIT_ACTIVITY_MANUAL = 0;
+
+type BaseType = 'enum' | 'uint8' | 'uint16' | 'uint32' | 'uint32z';
+
+const BASE_TYPES: Record<BaseType, { id: number; size: number; invalid: number; max: number }> = {
+  enum: { id: 0x00, size: 1, invalid: 0xff, max: 0xfe },
+  uint8: { id: 0x02, size: 1, invalid: 0xff, max: 0xfe },
+  uint16: { id: 0x84, size: 2, invalid: 0xffff, max: 0xfffe },
+  uint32: { id: 0x86, size: 4, invalid: 0xffffffff, max: 0xfffffffe },
+  uint32z: { id: 0x8c, size: 4, invalid: 0, max: 0xffffffff },
+};
+
+interface MessageDefinition<F extends string> {
+  globalNumber: number;
+  localType: number;
+  fields: Record<F, [number, BaseType]>;
+}
+
+const FILE_ID: MessageDefinition<'type' | 'manufacturer' | 'product' | 'serialNumber' | 'timeCreated'> = {
+  globalNumber: 0,
+  localType: 0,
+  fields: {
+    type: [0, 'enum'],
+    manufacturer: [1, 'uint16'],
+    product: [2, 'uint16'],
+    serialNumber: [3, 'uint32z'],
+    timeCreated: [4, 'uint32'],
+  },
+};
+
+const EVENT: MessageDefinition<'timestamp' | 'event' | 'eventType'> = {
+  globalNumber: 21,
+  localType: 1,
+  fields: {
+    timestamp: [253, 'uint32'],
+    event: [0, 'enum'],
+    eventType: [1, 'enum'],
+  },
+};
+
+const RECORD: MessageDefinition<'timestamp' | 'heartRate' | 'cadence' | 'distance' | 'speed' | 'power'> = {
+  globalNumber: 20,
+  localType: 2,
+  fields: {
+    timestamp: [253, 'uint32'],
+    heartRate: [3, 'uint8'],
+    cadence: [4, 'uint8'],
+    distance: [5, 'uint32'],
+    speed: [6, 'uint16'],
+    power: [7, 'uint16'],
+  },
+};
+
+type SummaryField =
+  | 'timestamp'
+  | 'messageIndex'
+  | 'event'
+  | 'eventType'
+  | 'startTime'
+  | 'totalElapsedTime'
+  | 'totalTimerTime'
+  | 'totalDistance'
+  | 'totalCalories'
+  | 'avgSpeed'
+  | 'maxSpeed'
+  | 'avgHeartRate'
+  | 'maxHeartRate'
+  | 'avgCadence'
+  | 'maxCadence'
+  | 'avgPower'
+  | 'maxPower'
+  | 'sport';
+
+const LAP: MessageDefinition<SummaryField | 'lapTrigger'> = {
+  globalNumber: 19,
+  localType: 3,
+  fields: {
+    timestamp: [253, 'uint32'],
+    messageIndex: [254, 'uint16'],
+    event: [0, 'enum'],
+    eventType: [1, 'enum'],
+    startTime: [2, 'uint32'],
+    totalElapsedTime: [7, 'uint32'],
+    totalTimerTime: [8, 'uint32'],
+    totalDistance: [9, 'uint32'],
+    totalCalories: [11, 'uint16'],
+    avgSpeed: [13, 'uint16'],
+    maxSpeed: [14, 'uint16'],
+    avgHeartRate: [15, 'uint8'],
+    maxHeartRate: [16, 'uint8'],
+    avgCadence: [17, 'uint8'],
+    maxCadence: [18, 'uint8'],
+    avgPower: [19, 'uint16'],
+    maxPower: [20, 'uint16'],
+    lapTrigger: [24, 'enum'],
+    sport: [25, 'enum'],
+  },
+};
+
+const SESSION: MessageDefinition<
+  SummaryField | 'subSport' | 'firstLapIndex' | 'numLaps' | 'trigger' | 'normalizedPower' | 'trainingStressScore' | 'intensityFactor'
+> = {
+  globalNumber: 18,
+  localType: 4,
+  fields: {
+    timestamp: [253, 'uint32'],
+    messageIndex: [254, 'uint16'],
+    event: [0, 'enum'],
+    eventType: [1, 'enum'],
+    startTime: [2, 'uint32'],
+    sport: [5, 'enum'],
+    subSport: [6, 'enum'],
+    totalElapsedTime: [7, 'uint32'],
+    totalTimerTime: [8, 'uint32'],
+    totalDistance: [9, 'uint32'],
+    totalCalories: [11, 'uint16'],
+    avgSpeed: [14, 'uint16'],
+    maxSpeed: [15, 'uint16'],
+    avgHeartRate: [16, 'uint8'],
+    maxHeartRate: [17, 'uint8'],
+    avgCadence: [18, 'uint8'],
+    maxCadence: [19, 'uint8'],
+    avgPower: [20, 'uint16'],
+    maxPower: [21, 'uint16'],
+    firstLapIndex: [25, 'uint16'],
+    numLaps: [26, 'uint16'],
+    trigger: [28, 'enum'],
+    normalizedPower: [34, 'uint16'],
+    trainingStressScore: [35, 'uint16'],
+    intensityFactor: [36, 'uint16'],
+  },
+};
+
+const ACTIVITY: MessageDefinition<'timestamp' | 'totalTimerTime' | 'numSessions' | 'type' | 'event' | 'eventType' | 'localTimestamp'> = {
+  globalNumber: 34,
+  localType: 5,
+  fields: {
+    timestamp: [253, 'uint32'],
+    totalTimerTime: [0, 'uint32'],
+    numSessions: [1, 'uint16'],
+    type: [2, 'enum'],
+    event: [3, 'enum'],
+    eventType: [4, 'enum'],
+    localTimestamp: [5, 'uint32'],
+  },
+};
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+export const fitCrc = (data: Buffer, initial = 0): number => {
+  let crc = initial;
+  for (const byte of data) {
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+};
+
+const toFitTimestamp = (date: Date | number): number =>
+  Math.floor((typeof date === 'number' ? date : date.getTime()) / 1000) - FIT_EPOCH_OFFSET_S;
+
+class FitWriter {
+  private readonly chunks: Buffer[] = [];
+
+  private readonly defined = new Set<number>();
+
+  write<F extends string>(definition: MessageDefinition<F>, values: Partial<Record<F, number>>): void {
+    const fields = Object.entries(definition.fields) as [F, [number, BaseType]][];
+    if (!this.defined.has(definition.localType)) {
+      this.chunks.push(this.encodeDefinition(definition.localType, definition.globalNumber, fields));
+      this.defined.add(definition.localType);
+    }
+
+    const size = fields.reduce((acc, [, [, type]]) => acc + BASE_TYPES[type].size, 1);
+    const buffer = Buffer.alloc(size);
+    buffer.writeUInt8(definition.localType & 0x0f, 0);
+    let offset = 1;
+    fields.forEach(([name, [, type]]) => {
+      const base = BASE_TYPES[type];
+      const raw = values[name];
+      const value =
+        typeof raw === 'number' && Number.isFinite(raw) && raw >= 0 && Math.round(raw) <= base.max
+          ? Math.round(raw)
+          : base.invalid;
+      buffer.writeUIntLE(value, offset, base.size);
+      offset += base.size;
+    });
+    this.chunks.push(buffer);
+  }
+
+  toBuffer(): Buffer {
+    const data = Buffer.concat(this.chunks);
+    const header = Buffer.alloc(FIT_HEADER_SIZE);
+    header.writeUInt8(FIT_HEADER_SIZE, 0);
+    header.writeUInt8(FIT_PROTOCOL_VERSION, 1);
+    header.writeUInt16LE(FIT_PROFILE_VERSION, 2);
+    header.writeUInt32LE(data.length, 4);
+    header.write('.FIT', 8, 'ascii');
+    header.writeUInt16LE(fitCrc(header.subarray(0, 12)), 12);
+
+    const crc = Buffer.alloc(2);
+    crc.writeUInt16LE(fitCrc(data, fitCrc(header)), 0);
+    return Buffer.concat([header, data, crc]);
+  }
+
+  private encodeDefinition(localType: number, globalNumber: number, fields: [string, [number, BaseType]][]): Buffer {
+    const buffer = Buffer.alloc(6 + fields.length * 3);
+    buffer.writeUInt8(0x40 | (localType & 0x0f), 0);
+    buffer.writeUInt8(0, 1);
+    buffer.writeUInt8(0, 2); // little endian
+    buffer.writeUInt16LE(globalNumber, 3);
+    buffer.writeUInt8(fields.length, 5);
+    fields.forEach(([, [num, type]], index) => {
+      const offset = 6 + index * 3;
+      buffer.writeUInt8(num, offset);
+      buffer.writeUInt8(BASE_TYPES[type].size, offset + 1);
+      buffer.writeUInt8(BASE_TYPES[type].id, offset + 2);
+    });
+    return buffer;
+  }
+}
+
+interface TimedSample {
+  time: number;
+  sample: TelemetrySample;
+  distanceMeters: number;
+}
+
+interface SegmentSummary {
+  startTime: number;
+  endTime: number;
+  elapsedSeconds: number;
+  timerSeconds: number;
+  distanceMeters: number;
+  kilojoules: number;
+  energyKcal?: number;
+  avgSpeedMps?: number;
+  maxSpeedMps?: number;
+  avgHeartRate?: number;
+  maxHeartRate?: number;
+  avgCadence?: number;
+  maxCadence?: number;
+  avgPower?: number;
+  maxPower?: number;
+}
+
+const average = (values: number[]): number | undefined =>
+  values.length ? values.reduce((acc, value) => acc + value, 0) / values.length : undefined;
+
+const maximum = (values: number[]): number | undefined => (values.length ? Math.max(...values) : undefined);
+
+const pick = (samples: TimedSample[], key: keyof TelemetrySample): number[] =>
+  samples
+    .map(({ sample }) => sample[key])
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+
+/**
+ * Sorts samples by time and fills a cumulative distance, integrating speed
+ * when the trainer does not report total distance.
+ */
+const prepareSamples = (telemetry: TelemetrySample[]): TimedSample[] => {
+  const sorted = telemetry
+    .map((sample) => ({ time: Date.parse(sample.timestamp), sample }))
+    .filter(({ time }) => Number.isFinite(time))
+    .sort((a, b) => a.time - b.time);
+
+  let distance = 0;
+  let previousTime: number | undefined;
+  return sorted.map(({ time, sample }) => {
+    if (typeof sample.distanceMeters === 'number') {
+      distance = Math.max(distance, sample.distanceMeters);
+    } else if (previousTime !== undefined && typeof sample.speedKph === 'number') {
+      const dt = Math.min((time - previousTime) / 1000, MAX_SAMPLE_GAP_S);
+      distance += (sample.speedKph / 3.6) * dt;
+    }
+    previousTime = time;
+    return { time, sample, distanceMeters: distance };
+  });
+};
+
+const summarize = (samples: TimedSample[], startTime: number, endTime: number): SegmentSummary => {
+  let timerSeconds = 0;
+  let kilojoules = 0;
+  for (let index = 1; index < samples.length; index += 1) {
+    const dt = (samples[index].time - samples[index - 1].time) / 1000;
+    if (dt <= 0 || dt > MAX_SAMPLE_GAP_S) continue;
+    timerSeconds += dt;
+    kilojoules += ((samples[index].sample.powerWatts ?? 0) * dt) / 1000;
+  }
+  if (samples.length === 1) {
+    timerSeconds = 1;
+  }
+
+  const speeds = pick(samples, 'speedKph').map((kph) => kph / 3.6);
+  const heartRates = pick(samples, 'heartRateBpm');
+  const cadences = pick(samples, 'cadenceRpm');
+  const powers = pick(samples, 'powerWatts');
+  const energies = pick(samples, 'energyKcal');
+  const first = samples[0]?.distanceMeters ?? 0;
+  const last = samples[samples.length - 1]?.distanceMeters ?? first;
+
+  return {
+    startTime,
+    endTime,
+    elapsedSeconds: Math.max(0, (endTime - startTime) / 1000),
+    timerSeconds,
+    distanceMeters: Math.max(0, last - first),
+    kilojoules,
+    energyKcal: energies.length ? Math.max(...energies) - Math.min(...energies) : undefined,
+    avgSpeedMps: average(speeds),
+    maxSpeedMps: maximum(speeds),
+    avgHeartRate: average(heartRates),
+    maxHeartRate: maximum(heartRates),
+    avgCadence: average(cadences),
+    maxCadence: maximum(cadences),
+    avgPower: average(powers),
+    maxPower: maximum(powers),
+  };
+};
+
+const summaryValues = (summary: SegmentSummary) => ({
+  timestamp: toFitTimestamp(summary.endTime),
+  startTime: toFitTimestamp(summary.startTime),
+  totalElapsedTime: summary.elapsedSeconds * 1000,
+  totalTimerTime: summary.timerSeconds * 1000,
+  totalDistance: summary.distanceMeters * 100,
+  // Prefer the trainer's estimate; otherwise, human efficiency on a bike is
+  // close to 25 %, so kJ of work ≈ kcal burned.
+  totalCalories: summary.energyKcal ?? summary.kilojoules,
+  avgSpeed: summary.avgSpeedMps !== undefined ? summary.avgSpeedMps * 1000 : undefined,
+  maxSpeed: summary.maxSpeedMps !== undefined ? summary.maxSpeedMps * 1000 : undefined,
+  avgHeartRate: summary.avgHeartRate,
+  maxHeartRate: summary.maxHeartRate,
+  avgCadence: summary.avgCadence,
+  maxCadence: summary.maxCadence,
+  avgPower: summary.avgPower,
+  maxPower: summary.maxPower,
+  sport: FIT_SPORT_CYCLING,
+});
+
+/**
+ * Each block becomes a lap running from its start offset until the next
+ * block starts (or the session ends), so paused time stays inside the lap.
+ */
+const resolveLaps = (blocks: SessionBlockProgress[], startTime: number, endTime: number): { start: number; end: number }[] => {
+  const starts = blocks.map((block) => startTime + block.startOffsetSeconds * 1000);
+  const laps = starts
+    .map((start, index) => ({ start, end: Math.min(endTime, starts[index + 1] ?? endTime) }))
+    .filter((lap) => lap.end > lap.start);
+  return laps.length ? laps : [{ start: startTime, end: endTime }];
+};
+
+/**
+ * Encodes a recorded session as a FIT activity file (file_id, events,
+ * records, laps, session, activity) ready to upload to Strava & co.
+ */
+export const encodeFitActivity = (session: SessionRecord): Buffer => {
+  const samples = prepareSamples(session.telemetry);
+  if (!samples.length) {
+    throw new Error('Session has no telemetry to export');
+  }
+
+  const startTime = Math.min(Date.parse(session.startedAt) || samples[0].time, samples[0].time);
+  const endTime = Math.max(
+    session.endedAt ? Date.parse(session.endedAt) || 0 : 0,
+    samples[samples.length - 1].time,
+  );
+
+  const writer = new FitWriter();
+  writer.write(FILE_ID, {
+    type: FIT_FILE_ACTIVITY,
+    manufacturer: FIT_MANUFACTURER_DEVELOPMENT,
+    product: 0,
+    serialNumber: parseInt(session.id.replace(/[^a-f0-9]/gi, '').slice(0, 8), 16) || 1,
+    timeCreated: toFitTimestamp(startTime),
+  });
+  writer.write(EVENT, { timestamp: toFitTimestamp(startTime), event: FIT_EVENT_TIMER, eventType: FIT_EVENT_TYPE_START });
+
+  samples.forEach(({ time, sample, distanceMeters }) => {
+    writer.write(RECORD, {
+      timestamp: toFitTimestamp(time),
+      heartRate: sample.heartRateBpm,
+      cadence: sample.cadenceRpm,
+      distance: distanceMeters * 100,
+      speed: typeof sample.speedKph === 'number' ? (sample.speedKph / 3.6) * 1000 : undefined,
+      power: sample.powerWatts,
+    });
+  });
+
+  writer.write(EVENT, { timestamp: toFitTimestamp(endTime), event: FIT_EVENT_TIMER, eventType: FIT_EVENT_TYPE_STOP_ALL });
+
+  const laps = resolveLaps(session.blockProgress, startTime, endTime);
+  laps.forEach((lap, index) => {
+    const lapSamples = samples.filter(({ time }) => time >= lap.start && time < lap.end);
+    const summary = summarize(lapSamples, lap.start, lap.end);
+    writer.write(LAP, {
+      ...summaryValues(summary),
+      messageIndex: index,
+      event: FIT_EVENT_LAP,
+      eventType: FIT_EVENT_TYPE_STOP,
+      lapTrigger: index === laps.length - 1 ? FIT_LAP_TRIGGER_SESSION_END : FIT_LAP_TRIGGER_TIME,
+    });
+  });
+
+  const total = summarize(samples, startTime, endTime);
+  const { metrics } = session;
+  writer.write(SESSION, {
+    ...summaryValues(total),
+    messageIndex: 0,
+    event: FIT_EVENT_SESSION,
+    eventType: FIT_EVENT_TYPE_STOP,
+    subSport: FIT_SUB_SPORT_INDOOR_CYCLING,
+    totalCalories: metrics.energyKcal ?? metrics.kilojoules ?? total.kilojoules,
+    firstLapIndex: 0,
+    numLaps: laps.length,
+    trigger: FIT_SESSION_TRIGGER_ACTIVITY_END,
+    normalizedPower: metrics.normalizedPowerWatts,
+    trainingStressScore: metrics.trainingStressScore !== undefined ? metrics.trainingStressScore * 10 : undefined,
+    intensityFactor: metrics.intensityFactor !== undefined ? metrics.intensityFactor * 1000 : undefined,
+  });
+
+  const timezoneOffsetSeconds = -new Date(endTime).getTimezoneOffset() * 60;
+  writer.write(ACTIVITY, {
+    timestamp: toFitTimestamp(endTime),
+    totalTimerTime: total.timerSeconds * 1000,
+    numSessions: 1,
+    type: FIT_ACTIVITY_MANUAL,
+    event: FIT_EVENT_ACTIVITY,
+    eventType: FIT_EVENT_TYPE_STOP,
+    localTimestamp: toFitTimestamp(endTime) + timezoneOffsetSeconds,
+  });
+
+  return writer.toBuffer();
+};
+
+export default encodeFitActivity;
@@ -0,0 +1,112 @@
+import EventEmitter from 'events';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { app } from 'electron';
+import { FitExportJob, SessionRecord } from '../types/domain';
+import { encodeFitActivity } from './fitEncoder';
+import PersistentStore from './persistentStore';
+
+const buildFileName = (session: SessionRecord): string => {
+  const stamp = session.startedAt.replace(/[:]/g, '').replace(/\.\d+Z$/, 'Z');
+  return `open-trainer-${stamp}-${session.id.slice(0, 8)}.fit`;
+};
+
+/**
+ * Runs FIT exports one at a time and persists every status transition
+ * (queued → processing → completed/failed) so the renderer can follow along.
+ */
+export class FitExportQueue extends EventEmitter {
+  private readonly pending: FitExportJob[] = [];
+
+  private processing = false;
+
+  constructor(
+    private readonly store: PersistentStore,
+    private readonly outputDir: string = path.join(app.getPath('userData'), 'exports'),
+  ) {
+    super();
+  }
+
+  async enqueue(sessionId: string): Promise<FitExportJob> {
+    const session = await this.store.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const job: FitExportJob = {
+      id: randomUUID(),
+      sessionId,
+      requestedAt: new Date().toISOString(),
+      status: 'queued',
+    };
+    await this.update(job);
+    this.pending.push(job);
+    void this.drain();
+    return job;
+  }
+
+  /**
+   * Requeues jobs that were interrupted by a previous shutdown.
+   */
+  async resume(): Promise<void> {
+    const jobs = await this.store.listFitExports();
+    jobs
+      .filter((job) => job.status === 'queued' || job.status === 'processing')
+      .forEach((job) => {
+        this.pending.push({ ...job, status: 'queued' });
+      });
+    void this.drain();
+  }
+
+  async getJob(jobId: string): Promise<FitExportJob | undefined> {
+    const jobs = await this.store.listFitExports();
+    return jobs.find((job) => job.id === jobId);
+  }
+
+  private async drain(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    try {
+      let job = this.pending.shift();
+      while (job) {
+        await this.process(job);
+        job = this.pending.shift();
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async process(job: FitExportJob): Promise<void> {
+    const current = await this.update({ ...job, status: 'processing', errorMessage: undefined });
+    try {
+      const session = await this.store.getSession(job.sessionId);
+      if (!session) {
+        throw new Error(`Session ${job.sessionId} not found`);
+      }
+      const contents = encodeFitActivity(session);
+      await fs.mkdir(this.outputDir, { recursive: true });
+      const outputPath = path.join(this.outputDir, buildFileName(session));
+      await fs.writeFile(outputPath, contents);
+      await this.update({ ...current, status: 'completed', outputPath, completedAt: new Date().toISOString() });
+    } catch (error) {
+      await this.update({
+        ...current,
+        status: 'failed',
+        completedAt: new Date().toISOString(),
+        errorMessage: (error as Error).message,
+      });
+    }
+  }
+
+  private async update(job: FitExportJob): Promise<FitExportJob> {
+    const saved = await this.store.upsertFitExport(job);
+    this.emit('job', saved);
+    return saved;
+  }
+}
+
+export default FitExportQueue;
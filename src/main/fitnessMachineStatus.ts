@@ -0,0 +1,164 @@
+import { SimulationParameters } from './trainerController';
+
+export type SpinDownStatus = 'requested' | 'success' | 'error' | 'stopPedaling';
+
+export type TargetKind =
+  | 'speed'
+  | 'incline'
+  | 'heartRate'
+  | 'expendedEnergy'
+  | 'steps'
+  | 'strides'
+  | 'distance'
+  | 'trainingTime'
+  | 'heartRateZoneTime'
+  | 'cadence';
+
+export type FitnessMachineStatus =
+  | { type: 'reset' }
+  | { type: 'stoppedByUser'; paused: boolean }
+  | { type: 'stoppedBySafetyKey' }
+  | { type: 'startedByUser' }
+  | { type: 'targetPowerChanged'; watts: number }
+  | { type: 'targetResistanceChanged'; level: number }
+  | { type: 'simulationParametersChanged'; parameters: SimulationParameters }
+  | { type: 'targetChanged'; target: TargetKind; value?: number }
+  | { type: 'wheelCircumferenceChanged'; millimeters: number }
+  | { type: 'spinDownStatus'; status: SpinDownStatus }
+  | { type: 'controlPermissionLost' }
+  | { type: 'unknown' };
+
+export type MachineStatusEvent = FitnessMachineStatus & {
+  opcode: number;
+  description: string;
+};
+
+const SPIN_DOWN_STATUSES: Record<number, SpinDownStatus> = {
+  0x01: 'requested',
+  0x02: 'success',
+  0x03: 'error',
+  0x04: 'stopPedaling',
+};
+
+const SPIN_DOWN_LABELS: Record<SpinDownStatus, string> = {
+  requested: 'spin down requested',
+  success: 'spin down succeeded',
+  error: 'spin down failed',
+  stopPedaling: 'stop pedaling',
+};
+
+// Opcode → target kind and how to read the new value (field size, scale).
+const TARGET_CHANGES: Record<number, { target: TargetKind; size: number; scale: number; signed?: boolean }> = {
+  0x05: { target: 'speed', size: 2, scale: 0.01 },
+  0x06: { target: 'incline', size: 2, scale: 0.1, signed: true },
+  0x09: { target: 'heartRate', size: 1, scale: 1 },
+  0x0a: { target: 'expendedEnergy', size: 2, scale: 1 },
+  0x0b: { target: 'steps', size: 2, scale: 1 },
+  0x0c: { target: 'strides', size: 2, scale: 1 },
+  0x0d: { target: 'distance', size: 3, scale: 1 },
+  0x0e: { target: 'trainingTime', size: 2, scale: 1 },
+  0x15: { target: 'cadence', size: 2, scale: 0.5 },
+};
+
+const TARGET_LABELS: Record<TargetKind, string> = {
+  speed: 'target speed',
+  incline: 'target incline',
+  heartRate: 'target heart rate',
+  expendedEnergy: 'targeted expended energy',
+  steps: 'targeted number of steps',
+  strides: 'targeted number of strides',
+  distance: 'targeted distance',
+  trainingTime: 'targeted training time',
+  heartRateZoneTime: 'targeted time in heart rate zones',
+  cadence: 'targeted cadence',
+};
+
+const decode = (opcode: number, data: Buffer): FitnessMachineStatus => {
+  const has = (size: number) => data.length >= 1 + size;
+  switch (opcode) {
+    case 0x01:
+      return { type: 'reset' };
+    case 0x02:
+      return { type: 'stoppedByUser', paused: has(1) && data.readUInt8(1) === 0x02 };
+    case 0x03:
+      return { type: 'stoppedBySafetyKey' };
+    case 0x04:
+      return { type: 'startedByUser' };
+    case 0x07:
+      return has(1) ? { type: 'targetResistanceChanged', level: data.readUInt8(1) / 10 } : { type: 'unknown' };
+    case 0x08:
+      return has(2) ? { type: 'targetPowerChanged', watts: data.readInt16LE(1) } : { type: 'unknown' };
+    case 0x0f:
+    case 0x10:
+    case 0x11:
+      return { type: 'targetChanged', target: 'heartRateZoneTime' };
+    case 0x12:
+      if (!has(6)) return { type: 'unknown' };
+      // Resolutions: wind 0.001 m/s, grade 0.01 %, Crr 0.0001, Cw 0.01 kg/m.
+      return {
+        type: 'simulationParametersChanged',
+        parameters: {
+          windSpeedMps: data.readInt16LE(1) / 1000,
+          gradePercent: data.readInt16LE(3) / 100,
+          rollingResistance: data.readUInt8(5) / 10000,
+          windResistance: data.readUInt8(6) / 100,
+        },
+      };
+    case 0x13:
+      return has(2) ? { type: 'wheelCircumferenceChanged', millimeters: data.readUInt16LE(1) / 10 } : { type: 'unknown' };
+    case 0x14: {
+      const status = has(1) ? SPIN_DOWN_STATUSES[data.readUInt8(1)] : undefined;
+      return status ? { type: 'spinDownStatus', status } : { type: 'unknown' };
+    }
+    case 0xff:
+      return { type: 'controlPermissionLost' };
+    default: {
+      const change = TARGET_CHANGES[opcode];
+      if (!change) return { type: 'unknown' };
+      if (!has(change.size)) return { type: 'targetChanged', target: change.target };
+      const raw = change.signed ? data.readIntLE(1, change.size) : data.readUIntLE(1, change.size);
+      return { type: 'targetChanged', target: change.target, value: raw * change.scale };
+    }
+  }
+};
+
+const describe = (opcode: number, status: FitnessMachineStatus): string => {
+  switch (status.type) {
+    case 'reset':
+      return 'Trainer was reset';
+    case 'stoppedByUser':
+      return status.paused ? 'Trainer paused by the rider' : 'Trainer stopped by the rider';
+    case 'stoppedBySafetyKey':
+      return 'Trainer stopped by its safety key';
+    case 'startedByUser':
+      return 'Trainer started by the rider';
+    case 'targetPowerChanged':
+      return `Target power changed to ${status.watts} W`;
+    case 'targetResistanceChanged':
+      return `Target resistance changed to ${status.level}`;
+    case 'simulationParametersChanged':
+      return `Simulation grade changed to ${status.parameters.gradePercent.toFixed(1)} %`;
+    case 'targetChanged':
+      return `Trainer ${TARGET_LABELS[status.target]} changed${status.value !== undefined ? ` to ${status.value}` : ''}`;
+    case 'wheelCircumferenceChanged':
+      return `Wheel circumference changed to ${status.millimeters} mm`;
+    case 'spinDownStatus':
+      return `Trainer reports ${SPIN_DOWN_LABELS[status.status]}`;
+    case 'controlPermissionLost':
+      return 'Trainer control was taken by another app';
+    default:
+      return `Unknown trainer status 0x${opcode.toString(16).padStart(2, '0')}`;
+  }
+};
+
+/**
+ * Decodes a Fitness Machine Status (0x2ADA) notification.
+ */
+export const parseFitnessMachineStatus = (data: Buffer): MachineStatusEvent | undefined => {
+  if (!data.length) {
+    return undefined;
+  }
+  const opcode = data.readUInt8(0);
+  const status = decode(opcode, data);
+  return { ...status, opcode, description: describe(opcode, status) };
+};
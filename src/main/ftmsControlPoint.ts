@@ -0,0 +1,185 @@
+import { Characteristic } from '@abandonware/noble';
+
+const FTMS_RESPONSE_CODE = 0x80;
+
+const DEFAULT_TIMEOUT_MS = 3000;
+const DEFAULT_RETRIES = 2;
+
+export type ControlPointErrorReason =
+  | 'notSupported'
+  | 'invalidParameter'
+  | 'operationFailed'
+  | 'controlNotPermitted'
+  | 'timeout'
+  | 'writeFailed'
+  | 'disconnected';
+
+const RESULT_REASONS: Record<number, ControlPointErrorReason> = {
+  0x02: 'notSupported',
+  0x03: 'invalidParameter',
+  0x04: 'operationFailed',
+  0x05: 'controlNotPermitted',
+};
+
+const REASON_MESSAGES: Record<ControlPointErrorReason, string> = {
+  notSupported: 'op code not supported',
+  invalidParameter: 'invalid parameter',
+  operationFailed: 'operation failed',
+  controlNotPermitted: 'control not permitted',
+  timeout: 'no response from trainer',
+  writeFailed: 'write failed',
+  disconnected: 'trainer disconnected',
+};
+
+const OPCODE_LABELS: Record<number, string> = {
+  0x00: 'Request Control',
+  0x01: 'Reset',
+  0x04: 'Set Target Resistance Level',
+  0x05: 'Set Target Power',
+  0x07: 'Start or Resume',
+  0x08: 'Stop or Pause',
+  0x11: 'Set Indoor Bike Simulation Parameters',
+  0x13: 'Spin Down Control',
+};
+
+export const describeOpcode = (opcode: number): string =>
+  OPCODE_LABELS[opcode] ?? `opcode 0x${opcode.toString(16).padStart(2, '0')}`;
+
+export interface ControlPointFailure {
+  opcode: number;
+  operation: string;
+  reason: ControlPointErrorReason;
+  message: string;
+}
+
+export class ControlPointError extends Error {
+  readonly opcode: number;
+
+  readonly reason: ControlPointErrorReason;
+
+  readonly resultCode?: number;
+
+  constructor(opcode: number, reason: ControlPointErrorReason, resultCode?: number) {
+    super(`${describeOpcode(opcode)} rejected: ${REASON_MESSAGES[reason]}`);
+    this.name = 'ControlPointError';
+    this.opcode = opcode;
+    this.reason = reason;
+    this.resultCode = resultCode;
+  }
+
+  toFailure(): ControlPointFailure {
+    return {
+      opcode: this.opcode,
+      operation: describeOpcode(this.opcode),
+      reason: this.reason,
+      message: this.message,
+    };
+  }
+}
+
+export interface ControlPointRequestOptions {
+  timeoutMs?: number;
+  retries?: number;
+}
+
+interface PendingRequest {
+  opcode: number;
+  resolve: (parameters: Buffer) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
+/**
+ * Serializes writes to the FTMS control point and resolves each one only
+ * when the trainer answers with the matching 0x80 response.
+ */
+export class FtmsControlPoint {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private pending?: PendingRequest;
+
+  constructor(private readonly characteristic: Characteristic) {}
+
+  send(payload: Buffer, options: ControlPointRequestOptions = {}): Promise<Buffer> {
+    const run = () => this.sendWithRetries(payload, options);
+    const next = this.queue.then(run, run);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Feeds a control point indication. Returns false when nothing was waiting
+   * for it.
+   */
+  handleResponse(data: Buffer): boolean {
+    if (data.length < 3 || data.readUInt8(0) !== FTMS_RESPONSE_CODE) {
+      return false;
+    }
+    const requestOpcode = data.readUInt8(1);
+    const result = data.readUInt8(2);
+    const pending = this.pending;
+    if (!pending || pending.opcode !== requestOpcode) {
+      return false;
+    }
+
+    clearTimeout(pending.timeout);
+    this.pending = undefined;
+    if (result === 0x01) {
+      pending.resolve(data.subarray(3));
+    } else {
+      pending.reject(new ControlPointError(requestOpcode, RESULT_REASONS[result] ?? 'operationFailed', result));
+    }
+    return true;
+  }
+
+  /**
+   * Fails the in-flight request, e.g. when the trainer disconnects.
+   */
+  cancel(): void {
+    const pending = this.pending;
+    if (!pending) return;
+    clearTimeout(pending.timeout);
+    this.pending = undefined;
+    pending.reject(new ControlPointError(pending.opcode, 'disconnected'));
+  }
+
+  private async sendWithRetries(payload: Buffer, options: ControlPointRequestOptions): Promise<Buffer> {
+    const retries = options.retries ?? DEFAULT_RETRIES;
+    let attempt = 0;
+    for (;;) {
+      try {
+        return await this.request(payload, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+      } catch (error) {
+        const retryable =
+          error instanceof ControlPointError && (error.reason === 'timeout' || error.reason === 'writeFailed');
+        if (!retryable || attempt >= retries) {
+          throw error;
+        }
+        attempt += 1;
+      }
+    }
+  }
+
+  private request(payload: Buffer, timeoutMs: number): Promise<Buffer> {
+    const opcode = payload.readUInt8(0);
+    return new Promise<Buffer>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        if (this.pending?.timeout === timeout) {
+          this.pending = undefined;
+        }
+        reject(new ControlPointError(opcode, 'timeout'));
+      }, timeoutMs);
+      this.pending = { opcode, resolve, reject, timeout };
+
+      this.characteristic.write(payload, false, (error) => {
+        if (error && this.pending?.timeout === timeout) {
+          clearTimeout(timeout);
+          this.pending = undefined;
+          reject(new ControlPointError(opcode, 'writeFailed'));
+        }
+      });
+    });
+  }
+}
+
+export default FtmsControlPoint;
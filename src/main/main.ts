@@ -1,16 +1,104 @@
+import { promises as fs } from 'fs';
 import path from 'path';
-import { app, BrowserWindow, ipcMain, shell } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain, shell } from 'electron';
 import TrainerController, {
   ConnectOptions,
   StartSessionOptions,
+  SessionLifecycleEvent,
+  SimulationParameters,
   TelemetryPayload,
   StatusPayload,
-  DiscoveredDevice,
   DisconnectOptions,
 } from './trainerController';
+import { ControlPointFailure } from './ftmsControlPoint';
+import { MachineStatusEvent } from './fitnessMachineStatus';
+import { PowerMatchSettings, PowerMatchState } from './powerMatch';
+import PersistentStore from './persistentStore';
+import FitExportQueue from './fitExportQueue';
+import SessionRecorder, { SessionBlockInput } from './sessionRecorder';
+import { parseWorkoutFile, WORKOUT_FILE_EXTENSIONS } from './workoutImport';
+import { exportWorkout } from './workoutExport';
+import {
+  CreateWorkoutInput,
+  DeviceCalibrationState,
+  DeviceSnapshot,
+  FitExportJob,
+  PowerSource,
+  RiderProfile,
+  SessionRecord,
+  SessionSummary,
+  SessionUpsertInput,
+  TrainerMode,
+  TrainerSettings,
+  UpdateWorkoutInput,
+  WorkoutFileFormat,
+} from '../types/domain';
 
 let mainWindow: BrowserWindow | null = null;
 const controller = new TrainerController();
+const store = new PersistentStore();
+const fitExports = new FitExportQueue(store);
+const recorder = new SessionRecorder(store);
+
+const toSessionSummary = ({ telemetry, ...summary }: SessionRecord): SessionSummary => summary;
+
+controller.on('telemetry', (payload: TelemetryPayload) => {
+  recorder.ingest(payload);
+});
+
+controller.on('session', (event: SessionLifecycleEvent) => {
+  void recorder.handleLifecycle(event);
+});
+
+controller.on('trainer-mode', (mode: TrainerMode) => {
+  recorder.setTrainerMode(mode);
+});
+
+const broadcastSavedDevices = async (): Promise<void> => {
+  mainWindow?.webContents.send('store:devices', await store.listDevices());
+};
+
+// Devices come back with the settings the rider last chose for them, and are
+// remembered so the next launch connects them on its own.
+controller.on('device-connected', async (device: DeviceSnapshot) => {
+  try {
+    const saved = (await store.listDevices()).find((entry) => entry.id === device.id);
+    if (device.kind === 'cadenceSensor' && typeof saved?.wheelCircumferenceMm === 'number') {
+      controller.setWheelCircumference(saved.wheelCircumferenceMm, device.id);
+    }
+    if (device.kind === 'powerMeter' && saved?.preferredPowerSource) {
+      controller.setPowerSource('powerMeter');
+    }
+    const current = controller.getDevice(device.id) ?? device;
+    await store.upsertDevice({ ...current, state: 'paired', autoConnect: saved?.autoConnect ?? true });
+    await broadcastSavedDevices();
+  } catch (error) {
+    console.error('Failed to remember connected device', error);
+  }
+});
+
+// Battery and firmware are read once connected; remembered devices keep the latest.
+controller.on('device-info', async (device: DeviceSnapshot) => {
+  try {
+    const saved = (await store.listDevices()).find((entry) => entry.id === device.id);
+    if (!saved) return;
+    const { batteryLevel, firmwareVersion, serialNumber } = device;
+    await store.upsertDevice({ ...saved, batteryLevel, firmwareVersion, serialNumber });
+    await broadcastSavedDevices();
+  } catch (error) {
+    console.error('Failed to save device info', error);
+  }
+});
+
+// Only the outcome is kept; a spin down in progress is not worth restoring.
+controller.on('calibration', async (calibration: DeviceCalibrationState) => {
+  if (calibration.inProgress) return;
+  try {
+    await store.saveCalibration(calibration);
+  } catch (error) {
+    console.error('Failed to save calibration', error);
+  }
+});
 
 const createWindow = async (): Promise<void> => {
   mainWindow = new BrowserWindow({
@@ -36,10 +124,46 @@ const createWindow = async (): Promise<void> => {
     mainWindow?.webContents.send('trainer:target', watts);
   });
 
-  controller.on('devices', (devices: DiscoveredDevice[]) => {
+  controller.on('target-slope', (gradePercent: number) => {
+    mainWindow?.webContents.send('trainer:slope', gradePercent);
+  });
+
+  controller.on('trainer-mode', (mode: TrainerMode) => {
+    mainWindow?.webContents.send('trainer:mode', mode);
+  });
+
+  controller.on('control-error', (failure: ControlPointFailure) => {
+    mainWindow?.webContents.send('trainer:control-error', failure);
+  });
+
+  controller.on('machine-status', (status: MachineStatusEvent) => {
+    mainWindow?.webContents.send('trainer:machine-status', status);
+  });
+
+  controller.on('power-match', (state: PowerMatchState) => {
+    mainWindow?.webContents.send('trainer:power-match', state);
+  });
+
+  controller.on('target-resistance', (level: number) => {
+    mainWindow?.webContents.send('trainer:resistance', level);
+  });
+
+  controller.on('devices', (devices: DeviceSnapshot[]) => {
     mainWindow?.webContents.send('trainer:devices', devices);
   });
 
+  controller.on('calibration', (calibration: DeviceCalibrationState) => {
+    mainWindow?.webContents.send('trainer:calibration', calibration);
+  });
+
+  fitExports.on('job', (job: FitExportJob) => {
+    mainWindow?.webContents.send('fit:job', job);
+  });
+
+  recorder.on('session', (session: SessionRecord) => {
+    mainWindow?.webContents.send('session:record', toSessionSummary(session));
+  });
+
   const rendererPath = path.join(__dirname, '../renderer/index.html');
   await mainWindow.loadFile(rendererPath);
 
@@ -50,7 +174,11 @@ const createWindow = async (): Promise<void> => {
 };
 
 app.on('ready', async () => {
+  await store.load();
+  controller.rememberDevices(await store.listDevices());
+  await recorder.recoverInterrupted();
   await createWindow();
+  await fitExports.resume();
 });
 
 app.on('activate', async () => {
@@ -61,6 +189,7 @@ app.on('activate', async () => {
 
 app.on('window-all-closed', async () => {
   await controller.shutdown();
+  await store.flush();
   if (process.platform !== 'darwin') {
     app.quit();
   }
@@ -116,7 +245,267 @@ ipcMain.handle('trainer/nudge', async (_event, delta: number) => {
   return { ok: true, watts };
 });
 
+ipcMain.handle('session/markBlock', async (_event, block: SessionBlockInput) => {
+  await recorder.markBlock(block);
+  return { ok: true };
+});
+
+ipcMain.handle('session/active', async () => {
+  const session = recorder.activeSession;
+  return { ok: true, session: session ? toSessionSummary(session) : undefined };
+});
+
+ipcMain.handle('trainer/setSlope', async (_event, parameters: SimulationParameters) => {
+  await controller.setSlope(parameters);
+  return { ok: true };
+});
+
+ipcMain.handle('trainer/nudgeSlope', async (_event, delta: number) => {
+  const gradePercent = await controller.nudgeSlope(delta);
+  return { ok: true, gradePercent };
+});
+
+ipcMain.handle('trainer/setResistance', async (_event, level: number) => {
+  await controller.setResistanceLevel(level);
+  return { ok: true };
+});
+
+ipcMain.handle('trainer/nudgeResistance', async (_event, delta: number) => {
+  const level = await controller.nudgeResistance(delta);
+  return { ok: true, level };
+});
+
+ipcMain.handle('trainer/capabilities', async () => {
+  return { ok: true, capabilities: controller.getCapabilities() };
+});
+
+ipcMain.handle('trainer/setPowerMatch', async (_event, settings: Partial<PowerMatchSettings>) => {
+  return { ok: true, powerMatch: controller.setPowerMatch(settings) };
+});
+
+ipcMain.handle('trainer/powerMatch', async () => {
+  return { ok: true, powerMatch: controller.getPowerMatchState() };
+});
+
+ipcMain.handle('trainer/setWheelCircumference', async (_event, millimeters: number) => {
+  const wheelCircumferenceMm = controller.setWheelCircumference(millimeters);
+  const sensor = controller.getConnectedCadenceSensor();
+  if (sensor) {
+    await store.upsertDevice(sensor);
+  }
+  return { ok: true, wheelCircumferenceMm };
+});
+
+ipcMain.handle('trainer/setPowerSource', async (_event, source: PowerSource) => {
+  const powerSource = controller.setPowerSource(source);
+  const meter = controller.getConnectedPowerMeter();
+  if (meter) {
+    await store.upsertDevice({ ...meter, preferredPowerSource: powerSource === 'powerMeter' });
+  }
+  return { ok: true, powerSource };
+});
+
+ipcMain.handle('trainer/setAutoConnect', async (_event, deviceId: string, enabled: boolean) => {
+  const saved = (await store.listDevices()).find((entry) => entry.id === deviceId);
+  if (!saved) {
+    throw new Error('Device is not remembered');
+  }
+  const device = await store.upsertDevice({ ...saved, autoConnect: enabled });
+  controller.setAutoConnect(deviceId, enabled, saved.kind);
+  await broadcastSavedDevices();
+  return { ok: true, device };
+});
+
+ipcMain.handle('trainer/forgetDevice', async (_event, deviceId: string) => {
+  controller.setAutoConnect(deviceId, false);
+  await store.removeDevice(deviceId);
+  await broadcastSavedDevices();
+  return { ok: true };
+});
+
+ipcMain.handle('trainer/calibrate', async () => {
+  const calibration = await controller.calibrate();
+  return { ok: true, calibration };
+});
+
+ipcMain.handle('trainer/cancelCalibration', async () => {
+  await controller.cancelCalibration();
+  return { ok: true };
+});
+
 ipcMain.handle('trainer/shutdown', async () => {
   await controller.shutdown();
   return { ok: true };
 });
+
+ipcMain.handle('store/listDevices', async () => {
+  const devices = await store.listDevices();
+  return { ok: true, devices };
+});
+
+ipcMain.handle('store/saveDevice', async (_event, device: DeviceSnapshot) => {
+  const saved = await store.upsertDevice(device);
+  return { ok: true, device: saved };
+});
+
+ipcMain.handle('store/removeDevice', async (_event, deviceId: string) => {
+  await store.removeDevice(deviceId);
+  return { ok: true };
+});
+
+ipcMain.handle('store/getTrainerSettings', async (_event, deviceId: string) => {
+  const settings = await store.getTrainerSettings(deviceId);
+  return { ok: true, settings };
+});
+
+ipcMain.handle('store/saveTrainerSettings', async (_event, settings: Omit<TrainerSettings, 'lastUpdatedAt'>) => {
+  const saved = await store.saveTrainerSettings(settings);
+  return { ok: true, settings: saved };
+});
+
+ipcMain.handle('store/getCalibration', async (_event, deviceId: string) => {
+  const calibration = await store.getCalibration(deviceId);
+  return { ok: true, calibration };
+});
+
+ipcMain.handle('store/getRiderProfile', async () => {
+  const profile = await store.getRiderProfile();
+  return { ok: true, profile };
+});
+
+ipcMain.handle('store/saveRiderProfile', async (_event, profile: Omit<RiderProfile, 'updatedAt'>) => {
+  const saved = await store.saveRiderProfile(profile);
+  return { ok: true, profile: saved };
+});
+
+ipcMain.handle('store/listWorkouts', async () => {
+  const workouts = await store.listWorkouts();
+  return { ok: true, workouts };
+});
+
+ipcMain.handle('store/getWorkout', async (_event, workoutId: string) => {
+  const workout = await store.getWorkout(workoutId);
+  return { ok: true, workout };
+});
+
+ipcMain.handle('store/createWorkout', async (_event, input: CreateWorkoutInput) => {
+  const workout = await store.createWorkout(input);
+  return { ok: true, workout };
+});
+
+ipcMain.handle('store/updateWorkout', async (_event, workoutId: string, input: UpdateWorkoutInput) => {
+  const workout = await store.updateWorkout(workoutId, input);
+  return { ok: true, workout };
+});
+
+ipcMain.handle('store/duplicateWorkout', async (_event, workoutId: string) => {
+  const workout = await store.duplicateWorkout(workoutId);
+  return { ok: true, workout };
+});
+
+ipcMain.handle('store/deleteWorkout', async (_event, workoutId: string) => {
+  await store.deleteWorkout(workoutId);
+  return { ok: true };
+});
+
+ipcMain.handle('workout/import', async () => {
+  const options: Electron.OpenDialogOptions = {
+    title: 'Import workout',
+    properties: ['openFile'],
+    filters: [
+      { name: 'Workouts', extensions: WORKOUT_FILE_EXTENSIONS },
+      { name: 'Zwift workout', extensions: ['zwo'] },
+      { name: 'ERG / MRC', extensions: ['erg', 'mrc'] },
+      { name: 'JSON', extensions: ['json'] },
+    ],
+  };
+  const result = mainWindow ? await dialog.showOpenDialog(mainWindow, options) : await dialog.showOpenDialog(options);
+  const [filePath] = result.filePaths;
+  if (result.canceled || !filePath) {
+    return { ok: true, workout: undefined };
+  }
+  let input: CreateWorkoutInput;
+  try {
+    input = parseWorkoutFile(filePath, await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not import ${path.basename(filePath)}: ${(error as Error).message}`);
+  }
+  const workout = await store.createWorkout(input);
+  return { ok: true, workout };
+});
+
+const WORKOUT_FILE_NAMES: Record<WorkoutFileFormat, string> = {
+  zwo: 'Zwift workout',
+  erg: 'ERG workout',
+  mrc: 'MRC workout',
+};
+
+ipcMain.handle('workout/export', async (_event, workout: CreateWorkoutInput, format: WorkoutFileFormat) => {
+  const { ftpWatts } = await store.getRiderProfile();
+  // Convert first so an unsupported block is reported before asking where to save.
+  const contents = exportWorkout(workout, format, ftpWatts);
+  const options: Electron.SaveDialogOptions = {
+    title: 'Export workout',
+    defaultPath: `${workout.label.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'workout'}.${format}`,
+    filters: [{ name: WORKOUT_FILE_NAMES[format], extensions: [format] }],
+  };
+  const result = mainWindow ? await dialog.showSaveDialog(mainWindow, options) : await dialog.showSaveDialog(options);
+  if (result.canceled || !result.filePath) {
+    return { ok: true, filePath: undefined };
+  }
+  await fs.writeFile(result.filePath, contents, 'utf8');
+  return { ok: true, filePath: result.filePath };
+});
+
+ipcMain.handle('store/listSessions', async () => {
+  const sessions = await store.listSessions();
+  return { ok: true, sessions };
+});
+
+ipcMain.handle('store/getSession', async (_event, sessionId: string) => {
+  const session = await store.getSession(sessionId);
+  return { ok: true, session };
+});
+
+ipcMain.handle('store/saveSession', async (_event, input: SessionUpsertInput) => {
+  const session = await store.upsertSession(input);
+  return { ok: true, session };
+});
+
+ipcMain.handle('store/deleteSession', async (_event, sessionId: string) => {
+  await store.deleteSession(sessionId);
+  return { ok: true };
+});
+
+ipcMain.handle('store/listFitExports', async () => {
+  const jobs: FitExportJob[] = await store.listFitExports();
+  return { ok: true, jobs };
+});
+
+ipcMain.handle('fit/export', async (_event, sessionId: string) => {
+  const job = await fitExports.enqueue(sessionId);
+  return { ok: true, job };
+});
+
+const resolveFitOutput = async (jobId: string): Promise<string> => {
+  const job = await fitExports.getJob(jobId);
+  if (!job || job.status !== 'completed' || !job.outputPath) {
+    throw new Error('FIT export is not ready');
+  }
+  return job.outputPath;
+};
+
+ipcMain.handle('fit/open', async (_event, jobId: string) => {
+  const outputPath = await resolveFitOutput(jobId);
+  const error = await shell.openPath(outputPath);
+  if (error) {
+    throw new Error(error);
+  }
+  return { ok: true };
+});
+
+ipcMain.handle('fit/reveal', async (_event, jobId: string) => {
+  const outputPath = await resolveFitOutput(jobId);
+  shell.showItemInFolder(outputPath);
+  return { ok: true };
+});
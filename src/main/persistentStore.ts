@@ -0,0 +1,459 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { app } from 'electron';
+import {
+  CreateWorkoutInput,
+  DeviceCalibrationState,
+  DeviceSnapshot,
+  FitExportJob,
+  PersistentStoreSchema,
+  RiderProfile,
+  SessionRecord,
+  SessionSummary,
+  SessionUpsertInput,
+  TelemetrySample,
+  TrainerSettings,
+  UpdateWorkoutInput,
+  Workout,
+  WorkoutBlock,
+  WorkoutBlockDraft,
+} from '../types/domain';
+import { computeWorkoutMetrics } from './workoutMetrics';
+
+export const STORE_VERSION = 5;
+
+const STORE_FILE_NAME = 'open-trainer-store.json';
+// Next to the store; one compact JSON array of samples per session.
+const TELEMETRY_DIR_NAME = 'telemetry';
+
+type RawStore = Record<string, unknown>;
+
+/**
+ * Migrations keyed on the version they upgrade *from*. Each step receives the
+ * raw JSON of version N and must return data shaped for version N + 1.
+ */
+const MIGRATIONS: Record<number, (data: RawStore) => RawStore> = {
+  // v2 keeps spin-down calibration results
+  1: (data) => ({ ...data, calibrations: [] }),
+  // v3 adds the rider profile
+  2: (data) => ({ ...data, riderProfile: {} }),
+  // v4 keeps duration, estimated TSS and IF on each workout
+  3: (data) => {
+    const ftpWatts = isRecord(data.riderProfile) ? (data.riderProfile as RiderProfile).ftpWatts : undefined;
+    const workouts = Array.isArray(data.workouts) ? (data.workouts as Workout[]) : [];
+    return { ...data, workouts: workouts.map((workout) => withMetrics(workout, ftpWatts)) };
+  },
+  // v5 keeps session telemetry out of the store; load() writes it to its own files
+  4: (data) => data,
+};
+
+const createEmptyStore = (): PersistentStoreSchema => ({
+  version: STORE_VERSION,
+  devices: [],
+  trainerSettings: [],
+  workouts: [],
+  sessions: [],
+  fitExports: [],
+  calibrations: [],
+  riderProfile: {},
+});
+
+const isRecord = (value: unknown): value is RawStore =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toBlocks = (drafts: WorkoutBlockDraft[]): WorkoutBlock[] =>
+  drafts.map(({ blocks, ...draft }, index) => ({
+    ...draft,
+    id: draft.id ?? randomUUID(),
+    order: index,
+    ...(blocks ? { blocks: toBlocks(blocks) } : {}),
+  }));
+
+const withoutIds = (blocks: WorkoutBlock[]): WorkoutBlockDraft[] =>
+  blocks.map(({ id, order, blocks: children, ...block }) => ({
+    ...block,
+    ...(children ? { blocks: withoutIds(children) } : {}),
+  }));
+
+const withMetrics = (workout: Workout, ftpWatts?: number): Workout => {
+  const { durationSeconds, estimatedTss, intensityFactor } = computeWorkoutMetrics(workout.blocks, ftpWatts);
+  return { ...workout, durationSeconds, estimatedTss, intensityFactor };
+};
+
+export class PersistentStore {
+  private data: PersistentStoreSchema = createEmptyStore();
+
+  private loaded = false;
+
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string = path.join(app.getPath('userData'), STORE_FILE_NAME)) {}
+
+  private get backupPath(): string {
+    return `${this.filePath}.bak`;
+  }
+
+  private telemetryPath(sessionId: string): string {
+    if (!/^[\w-]+$/.test(sessionId)) {
+      throw new Error(`Invalid session id ${sessionId}`);
+    }
+    return path.join(path.dirname(this.filePath), TELEMETRY_DIR_NAME, `${sessionId}.json`);
+  }
+
+  async load(): Promise<PersistentStoreSchema> {
+    if (this.loaded) {
+      return this.data;
+    }
+
+    const primary = await this.readFile(this.filePath);
+    let data = primary.data;
+    if (!data && primary.corrupt) {
+      await this.quarantine(this.filePath);
+      const backup = await this.readFile(this.backupPath);
+      data = backup.data;
+    }
+
+    this.data = data ? this.migrate(data) : createEmptyStore();
+    const movedTelemetry = await this.moveInlineTelemetry();
+    this.loaded = true;
+    if (!data || primary.corrupt || data.version !== STORE_VERSION || movedTelemetry) {
+      await this.persist();
+    }
+    return this.data;
+  }
+
+  async listDevices(): Promise<DeviceSnapshot[]> {
+    await this.load();
+    return this.data.devices;
+  }
+
+  async upsertDevice(device: DeviceSnapshot): Promise<DeviceSnapshot> {
+    await this.load();
+    const index = this.data.devices.findIndex((entry) => entry.id === device.id);
+    if (index >= 0) {
+      this.data.devices[index] = { ...this.data.devices[index], ...device };
+    } else {
+      this.data.devices.push(device);
+    }
+    await this.persist();
+    return this.data.devices[index >= 0 ? index : this.data.devices.length - 1];
+  }
+
+  async removeDevice(deviceId: string): Promise<void> {
+    await this.load();
+    this.data.devices = this.data.devices.filter((device) => device.id !== deviceId);
+    this.data.trainerSettings = this.data.trainerSettings.filter((settings) => settings.deviceId !== deviceId);
+    this.data.calibrations = this.data.calibrations.filter((calibration) => calibration.deviceId !== deviceId);
+    await this.persist();
+  }
+
+  async getTrainerSettings(deviceId: string): Promise<TrainerSettings | undefined> {
+    await this.load();
+    return this.data.trainerSettings.find((settings) => settings.deviceId === deviceId);
+  }
+
+  async saveTrainerSettings(settings: Omit<TrainerSettings, 'lastUpdatedAt'>): Promise<TrainerSettings> {
+    await this.load();
+    const next: TrainerSettings = { ...settings, lastUpdatedAt: new Date().toISOString() };
+    const index = this.data.trainerSettings.findIndex((entry) => entry.deviceId === settings.deviceId);
+    if (index >= 0) {
+      this.data.trainerSettings[index] = next;
+    } else {
+      this.data.trainerSettings.push(next);
+    }
+    await this.persist();
+    return next;
+  }
+
+  async getCalibration(deviceId: string): Promise<DeviceCalibrationState | undefined> {
+    await this.load();
+    return this.data.calibrations.find((calibration) => calibration.deviceId === deviceId);
+  }
+
+  async saveCalibration(calibration: DeviceCalibrationState): Promise<DeviceCalibrationState> {
+    await this.load();
+    const index = this.data.calibrations.findIndex((entry) => entry.deviceId === calibration.deviceId);
+    if (index >= 0) {
+      this.data.calibrations[index] = calibration;
+    } else {
+      this.data.calibrations.push(calibration);
+    }
+    await this.persist();
+    return calibration;
+  }
+
+  async getRiderProfile(): Promise<RiderProfile> {
+    await this.load();
+    return this.data.riderProfile;
+  }
+
+  async saveRiderProfile(profile: Omit<RiderProfile, 'updatedAt'>): Promise<RiderProfile> {
+    await this.load();
+    this.data.riderProfile = { ...profile, updatedAt: new Date().toISOString() };
+    this.data.workouts = this.data.workouts.map((workout) => withMetrics(workout, profile.ftpWatts));
+    await this.persist();
+    return this.data.riderProfile;
+  }
+
+  async listWorkouts(): Promise<Workout[]> {
+    await this.load();
+    return this.data.workouts;
+  }
+
+  async getWorkout(workoutId: string): Promise<Workout | undefined> {
+    await this.load();
+    return this.data.workouts.find((workout) => workout.id === workoutId);
+  }
+
+  async createWorkout(input: CreateWorkoutInput): Promise<Workout> {
+    await this.load();
+    const now = new Date().toISOString();
+    const workout = withMetrics(
+      {
+        ...input,
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+        blocks: toBlocks(input.blocks),
+      },
+      this.data.riderProfile.ftpWatts,
+    );
+    this.data.workouts.push(workout);
+    await this.persist();
+    return workout;
+  }
+
+  async updateWorkout(workoutId: string, input: UpdateWorkoutInput): Promise<Workout> {
+    await this.load();
+    const index = this.data.workouts.findIndex((workout) => workout.id === workoutId);
+    if (index < 0) {
+      throw new Error(`Workout ${workoutId} not found`);
+    }
+    const current = this.data.workouts[index];
+    const { blocks, ...rest } = input;
+    const updated = withMetrics(
+      {
+        ...current,
+        ...rest,
+        blocks: blocks ? toBlocks(blocks) : current.blocks,
+        updatedAt: input.updatedAt ?? new Date().toISOString(),
+      },
+      this.data.riderProfile.ftpWatts,
+    );
+    this.data.workouts[index] = updated;
+    await this.persist();
+    return updated;
+  }
+
+  async duplicateWorkout(workoutId: string): Promise<Workout> {
+    await this.load();
+    const source = this.data.workouts.find((workout) => workout.id === workoutId);
+    if (!source) {
+      throw new Error(`Workout ${workoutId} not found`);
+    }
+    const now = new Date().toISOString();
+    const copy: Workout = {
+      ...source,
+      id: randomUUID(),
+      label: `${source.label} (copy)`,
+      createdAt: now,
+      updatedAt: now,
+      blocks: toBlocks(withoutIds(source.blocks)),
+    };
+    this.data.workouts.push(copy);
+    await this.persist();
+    return copy;
+  }
+
+  async deleteWorkout(workoutId: string): Promise<void> {
+    await this.load();
+    this.data.workouts = this.data.workouts.filter((workout) => workout.id !== workoutId);
+    await this.persist();
+  }
+
+  async listSessions(): Promise<SessionSummary[]> {
+    await this.load();
+    return this.data.sessions;
+  }
+
+  async getSession(sessionId: string): Promise<SessionRecord | undefined> {
+    await this.load();
+    const summary = this.data.sessions.find((session) => session.id === sessionId);
+    if (!summary) {
+      return undefined;
+    }
+    return { ...summary, telemetry: await this.readTelemetry(summary.id) };
+  }
+
+  async upsertSession(input: SessionUpsertInput): Promise<SessionRecord> {
+    await this.load();
+    const session: SessionRecord = { ...input, id: input.id ?? randomUUID() };
+    const { telemetry, ...summary } = session;
+    await this.enqueue(() => this.writeFileAtomic(this.telemetryPath(session.id), JSON.stringify(telemetry)));
+    const index = this.data.sessions.findIndex((entry) => entry.id === session.id);
+    if (index >= 0) {
+      this.data.sessions[index] = summary;
+    } else {
+      this.data.sessions.push(summary);
+    }
+    await this.persist();
+    return session;
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.load();
+    this.data.sessions = this.data.sessions.filter((session) => session.id !== sessionId);
+    this.data.fitExports = this.data.fitExports.filter((job) => job.sessionId !== sessionId);
+    await this.persist();
+    await this.enqueue(() => fs.rm(this.telemetryPath(sessionId), { force: true }));
+  }
+
+  async listFitExports(): Promise<FitExportJob[]> {
+    await this.load();
+    return this.data.fitExports;
+  }
+
+  async upsertFitExport(job: FitExportJob): Promise<FitExportJob> {
+    await this.load();
+    const index = this.data.fitExports.findIndex((entry) => entry.id === job.id);
+    if (index >= 0) {
+      this.data.fitExports[index] = job;
+    } else {
+      this.data.fitExports.push(job);
+    }
+    await this.persist();
+    return job;
+  }
+
+  /**
+   * Waits for pending writes so nothing is lost when the app quits.
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  private async readFile(filePath: string): Promise<{ data?: RawStore & { version?: number }; corrupt: boolean }> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { corrupt: false };
+      }
+      throw error;
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(contents);
+      if (!isRecord(parsed) || typeof parsed.version !== 'number') {
+        return { corrupt: true };
+      }
+      return { data: parsed as RawStore & { version: number }, corrupt: false };
+    } catch (error) {
+      return { corrupt: true };
+    }
+  }
+
+  private async quarantine(filePath: string): Promise<void> {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    try {
+      await fs.rename(filePath, `${filePath}.corrupt-${stamp}`);
+    } catch (error) {
+      // ignore quarantine errors, the file is rewritten on next persist
+    }
+  }
+
+  private async readTelemetry(sessionId: string): Promise<TelemetrySample[]> {
+    try {
+      const parsed: unknown = JSON.parse(await fs.readFile(this.telemetryPath(sessionId), 'utf8'));
+      return Array.isArray(parsed) ? (parsed as TelemetrySample[]) : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' || error instanceof SyntaxError) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stores before v5 kept every sample inline; writes them out to their own
+   * files and returns whether the store needs saving without them.
+   */
+  private async moveInlineTelemetry(): Promise<boolean> {
+    const sessions = this.data.sessions as (SessionSummary & { telemetry?: TelemetrySample[] })[];
+    const inline = sessions.filter((session) => Array.isArray(session.telemetry));
+    for (const session of inline) {
+      await this.writeFileAtomic(this.telemetryPath(session.id), JSON.stringify(session.telemetry));
+    }
+    this.data.sessions = sessions.map(({ telemetry, ...summary }) => summary);
+    return inline.length > 0;
+  }
+
+  private migrate(raw: RawStore & { version?: number }): PersistentStoreSchema {
+    let data: RawStore = raw;
+    let version = typeof raw.version === 'number' ? raw.version : 0;
+    if (version > STORE_VERSION) {
+      throw new Error(`Store version ${version} is newer than supported version ${STORE_VERSION}`);
+    }
+    while (version < STORE_VERSION) {
+      const step = MIGRATIONS[version];
+      if (step) {
+        data = step(data);
+      }
+      version += 1;
+    }
+
+    const empty = createEmptyStore();
+    const pickArray = <K extends keyof PersistentStoreSchema>(key: K): PersistentStoreSchema[K] =>
+      (Array.isArray(data[key]) ? data[key] : empty[key]) as PersistentStoreSchema[K];
+
+    return {
+      version: STORE_VERSION,
+      devices: pickArray('devices'),
+      trainerSettings: pickArray('trainerSettings'),
+      workouts: pickArray('workouts'),
+      sessions: pickArray('sessions'),
+      fitExports: pickArray('fitExports'),
+      calibrations: pickArray('calibrations'),
+      riderProfile: isRecord(data.riderProfile) ? (data.riderProfile as RiderProfile) : empty.riderProfile,
+    };
+  }
+
+  /**
+   * Writes through a temp file so a crash mid-write never leaves a truncated
+   * file behind. `backupPath` keeps the previous contents.
+   */
+  private async writeFileAtomic(filePath: string, contents: string, backupPath?: string): Promise<void> {
+    const tempPath = `${filePath}.tmp`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(contents, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    if (backupPath) {
+      try {
+        await fs.copyFile(filePath, backupPath);
+      } catch (error) {
+        // no previous file to back up yet
+      }
+    }
+    await fs.rename(tempPath, filePath);
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writeQueue.then(write, write);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.data, null, 2);
+    return this.enqueue(() => this.writeFileAtomic(this.filePath, snapshot, this.backupPath));
+  }
+}
+
+export default PersistentStore;
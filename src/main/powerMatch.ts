@@ -0,0 +1,128 @@
+export interface PowerMatchSettings {
+  enabled: boolean;
+  // Power meter readings are averaged over this window before comparing.
+  windowSeconds: number;
+  // The correction never exceeds this share of the target.
+  maxOffsetPercent: number;
+}
+
+export interface PowerMatchState extends PowerMatchSettings {
+  active: boolean;
+  targetWatts: number;
+  offsetWatts: number;
+  meterWatts?: number;
+}
+
+export const DEFAULT_POWER_MATCH_SETTINGS: PowerMatchSettings = {
+  enabled: false,
+  windowSeconds: 5,
+  maxOffsetPercent: 15,
+};
+
+// Share of the remaining error corrected on each update.
+const CORRECTION_GAIN = 0.5;
+// Errors smaller than this are noise, not trainer calibration.
+const DEADBAND_WATTS = 3;
+// Even low targets may be corrected by this much.
+const MIN_OFFSET_LIMIT_WATTS = 10;
+// ERG needs a few seconds to reach a new target before readings are meaningful.
+const SETTLE_MS = 5000;
+// Readings far below target mean the rider eased off, not that the trainer is off.
+const MIN_METER_RATIO = 0.5;
+const MIN_READINGS = 3;
+
+/**
+ * Works out how many watts to add to the ERG target so the external power
+ * meter, rather than the trainer, reads the target.
+ */
+export class PowerMatcher {
+  private readonly readings: { at: number; watts: number }[] = [];
+
+  private offset = 0;
+
+  private settleUntil = 0;
+
+  private current: PowerMatchSettings = { ...DEFAULT_POWER_MATCH_SETTINGS };
+
+  get settings(): PowerMatchSettings {
+    return { ...this.current };
+  }
+
+  get offsetWatts(): number {
+    return this.offset;
+  }
+
+  configure(settings: Partial<PowerMatchSettings>): PowerMatchSettings {
+    this.current = {
+      enabled: settings.enabled ?? this.current.enabled,
+      windowSeconds: Math.max(1, Math.min(settings.windowSeconds ?? this.current.windowSeconds, 30)),
+      maxOffsetPercent: Math.max(0, Math.min(settings.maxOffsetPercent ?? this.current.maxOffsetPercent, 50)),
+    };
+    if (!this.current.enabled) {
+      this.offset = 0;
+    }
+    return this.settings;
+  }
+
+  addReading(watts: number, at = Date.now()): void {
+    this.readings.push({ at, watts });
+    this.prune(at);
+  }
+
+  targetChanged(at = Date.now()): void {
+    this.settleUntil = at + SETTLE_MS;
+  }
+
+  smoothedWatts(now = Date.now()): number | undefined {
+    this.prune(now);
+    if (this.readings.length < MIN_READINGS) {
+      return undefined;
+    }
+    // a window that only covers its last second is a meter that just came back
+    if (now - this.readings[0].at < (this.current.windowSeconds * 1000) / 2) {
+      return undefined;
+    }
+    return this.readings.reduce((acc, reading) => acc + reading.watts, 0) / this.readings.length;
+  }
+
+  /**
+   * Moves the offset toward the meter/target gap. Returns true when the
+   * offset changed and the trainer needs the new wattage.
+   */
+  update(targetWatts: number, now = Date.now()): boolean {
+    if (!this.current.enabled || targetWatts <= 0 || now < this.settleUntil) {
+      return false;
+    }
+    const meter = this.smoothedWatts(now);
+    if (meter === undefined || meter < targetWatts * MIN_METER_RATIO) {
+      return false;
+    }
+    const error = targetWatts - meter;
+    if (Math.abs(error) < DEADBAND_WATTS) {
+      return false;
+    }
+    const limit = Math.max(MIN_OFFSET_LIMIT_WATTS, (targetWatts * this.current.maxOffsetPercent) / 100);
+    const next = Math.round(Math.max(-limit, Math.min(this.offset + error * CORRECTION_GAIN, limit)));
+    if (next === this.offset) {
+      return false;
+    }
+    this.offset = next;
+    // give the trainer time to settle on the corrected wattage
+    this.settleUntil = now + SETTLE_MS;
+    return true;
+  }
+
+  reset(): void {
+    this.offset = 0;
+    this.readings.length = 0;
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.current.windowSeconds * 1000;
+    while (this.readings.length && this.readings[0].at < cutoff) {
+      this.readings.shift();
+    }
+  }
+}
+
+export default PowerMatcher;
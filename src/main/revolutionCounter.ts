@@ -0,0 +1,66 @@
+export interface RevolutionCounterOptions {
+  // Cumulative revolutions roll over at this value (UINT16 crank, UINT32 wheel).
+  revolutionModulus: number;
+  // Event time ticks per second (1024 for CSC, 2048 for power meter wheel data).
+  ticksPerSecond: number;
+}
+
+// Without a new revolution event for this long the crank or wheel has stopped.
+const IDLE_MS = 3000;
+// Event times are UINT16 and roll over.
+const EVENT_TIME_MODULUS = 0x10000;
+
+/**
+ * Turns cumulative revolution counters and last-event times, as sent by CSC
+ * sensors and power meters, into revolutions per minute.
+ */
+export class RevolutionCounter {
+  private last?: { revolutions: number; eventTime: number; at: number; idle?: boolean };
+
+  private rpm?: number;
+
+  constructor(private readonly options: RevolutionCounterOptions) {}
+
+  /**
+   * Feeds one reading. Returns the current rate, 0 once events stop, or
+   * undefined until two distinct events have been seen.
+   */
+  update(revolutions: number, eventTime: number, now = Date.now()): number | undefined {
+    const previous = this.last;
+    if (!previous) {
+      this.last = { revolutions, eventTime, at: now };
+      return undefined;
+    }
+    const idle = previous.idle || now - previous.at > IDLE_MS;
+    if (eventTime === previous.eventTime) {
+      if (idle) {
+        this.rpm = 0;
+        previous.idle = true;
+      }
+      return this.rpm;
+    }
+    // After a stop the stale event (and a possibly wrapped event time) says
+    // nothing about the new rate: start counting again from this event.
+    if (idle) {
+      this.last = { revolutions, eventTime, at: now };
+      this.rpm = 0;
+      return this.rpm;
+    }
+
+    const { revolutionModulus, ticksPerSecond } = this.options;
+    const deltaRevolutions = (revolutions - previous.revolutions + revolutionModulus) % revolutionModulus;
+    const deltaSeconds = ((eventTime - previous.eventTime + EVENT_TIME_MODULUS) % EVENT_TIME_MODULUS) / ticksPerSecond;
+    this.last = { revolutions, eventTime, at: now };
+    if (deltaSeconds > 0) {
+      this.rpm = (deltaRevolutions / deltaSeconds) * 60;
+    }
+    return this.rpm;
+  }
+
+  reset(): void {
+    this.last = undefined;
+    this.rpm = undefined;
+  }
+}
+
+export default RevolutionCounter;
@@ -0,0 +1,215 @@
+import { DeviceKind, DeviceMetric } from '../types/domain';
+import RevolutionCounter from './revolutionCounter';
+import { TelemetryPayload } from './trainerController';
+
+export const FTMS_SERVICE_UUID = '1826';
+const HEART_RATE_SERVICE_UUID = '180d';
+const HEART_RATE_MEASUREMENT_UUID = '2a37';
+const CYCLING_POWER_SERVICE_UUID = '1818';
+const CYCLING_POWER_MEASUREMENT_UUID = '2a63';
+const CSC_SERVICE_UUID = '1816';
+const CSC_MEASUREMENT_UUID = '2a5b';
+
+// Cycling Power Measurement flags (0x2A63)
+const CPM_FLAG_PEDAL_BALANCE_PRESENT = 1 << 0;
+const CPM_FLAG_PEDAL_BALANCE_LEFT_REFERENCE = 1 << 1;
+const CPM_FLAG_ACCUMULATED_TORQUE_PRESENT = 1 << 2;
+const CPM_FLAG_WHEEL_REVOLUTION_PRESENT = 1 << 4;
+const CPM_FLAG_CRANK_REVOLUTION_PRESENT = 1 << 5;
+const CPM_FLAG_EXTREME_FORCE_PRESENT = 1 << 6;
+const CPM_FLAG_EXTREME_TORQUE_PRESENT = 1 << 7;
+const CPM_FLAG_EXTREME_ANGLES_PRESENT = 1 << 8;
+const CPM_FLAG_TOP_DEAD_SPOT_PRESENT = 1 << 9;
+const CPM_FLAG_BOTTOM_DEAD_SPOT_PRESENT = 1 << 10;
+const CPM_FLAG_ACCUMULATED_ENERGY_PRESENT = 1 << 11;
+
+// CSC Measurement flags (0x2A5B)
+const CSC_FLAG_WHEEL_REVOLUTION_PRESENT = 1 << 0;
+const CSC_FLAG_CRANK_REVOLUTION_PRESENT = 1 << 1;
+
+/** Per-connection settings a reader consults on every notification. */
+export interface SensorContext {
+  wheelCircumferenceMm?: number;
+}
+
+export interface SensorReader {
+  /** Decodes one measurement notification; undefined when it carries nothing usable yet. */
+  read(data: Buffer, now: number): TelemetryPayload | undefined;
+}
+
+/**
+ * Everything the device manager needs to find, connect and read one kind of
+ * sensor. The trainer has a profile for discovery only; its FTMS link is
+ * driven by the trainer controller.
+ */
+export interface SensorProfile {
+  kind: DeviceKind;
+  label: string;
+  serviceUuid: string;
+  metrics: DeviceMetric[];
+  measurementUuid?: string;
+  createReader?: (context: SensorContext) => SensorReader;
+}
+
+interface CyclingPowerMeasurement {
+  powerWatts: number;
+  pedalBalancePercent?: number;
+  crankRevolutions?: number;
+  // 1/1024 s, rolls over every 64 s
+  crankEventTime?: number;
+  accumulatedEnergyKj?: number;
+}
+
+/**
+ * Decodes a Cycling Power Measurement (0x2A63). Only the fields we use are
+ * kept; the others are skipped to reach the ones that follow.
+ */
+const parseCyclingPowerMeasurement = (data: Buffer): CyclingPowerMeasurement | undefined => {
+  if (data.length < 4) {
+    return undefined;
+  }
+  const flags = data.readUInt16LE(0);
+  const measurement: CyclingPowerMeasurement = { powerWatts: data.readInt16LE(2) };
+  let offset = 4;
+  const has = (size: number) => offset + size <= data.length;
+
+  if (flags & CPM_FLAG_PEDAL_BALANCE_PRESENT) {
+    if (!has(1)) return measurement;
+    // without the left reference the pedal the value applies to is unknown
+    if (flags & CPM_FLAG_PEDAL_BALANCE_LEFT_REFERENCE) {
+      measurement.pedalBalancePercent = data.readUInt8(offset) / 2;
+    }
+    offset += 1;
+  }
+  if (flags & CPM_FLAG_ACCUMULATED_TORQUE_PRESENT) offset += 2;
+  if (flags & CPM_FLAG_WHEEL_REVOLUTION_PRESENT) offset += 6;
+  if (flags & CPM_FLAG_CRANK_REVOLUTION_PRESENT) {
+    if (!has(4)) return measurement;
+    measurement.crankRevolutions = data.readUInt16LE(offset);
+    measurement.crankEventTime = data.readUInt16LE(offset + 2);
+    offset += 4;
+  }
+  if (flags & CPM_FLAG_EXTREME_FORCE_PRESENT) offset += 4;
+  if (flags & CPM_FLAG_EXTREME_TORQUE_PRESENT) offset += 4;
+  if (flags & CPM_FLAG_EXTREME_ANGLES_PRESENT) offset += 3;
+  if (flags & CPM_FLAG_TOP_DEAD_SPOT_PRESENT) offset += 2;
+  if (flags & CPM_FLAG_BOTTOM_DEAD_SPOT_PRESENT) offset += 2;
+  if (flags & CPM_FLAG_ACCUMULATED_ENERGY_PRESENT && has(2)) {
+    measurement.accumulatedEnergyKj = data.readUInt16LE(offset);
+  }
+  return measurement;
+};
+
+const createHeartRateReader = (): SensorReader => ({
+  read(data) {
+    if (!data.length) {
+      return undefined;
+    }
+    const flags = data.readUInt8(0);
+    let heartRate: number | undefined;
+    if (flags & 0x01) {
+      if (data.length >= 3) heartRate = data.readUInt16LE(1);
+    } else if (data.length >= 2) {
+      heartRate = data.readUInt8(1);
+    }
+    return typeof heartRate === 'number' && Number.isFinite(heartRate) ? { heartRateBpm: heartRate } : undefined;
+  },
+});
+
+const createCyclingPowerReader = (): SensorReader => {
+  const crank = new RevolutionCounter({ revolutionModulus: 0x10000, ticksPerSecond: 1024 });
+  return {
+    read(data, now) {
+      const measurement = parseCyclingPowerMeasurement(data);
+      if (!measurement) {
+        return undefined;
+      }
+      const telemetry: TelemetryPayload = { powerWatts: measurement.powerWatts };
+      if (measurement.crankRevolutions !== undefined && measurement.crankEventTime !== undefined) {
+        const cadenceRpm = crank.update(measurement.crankRevolutions, measurement.crankEventTime, now);
+        if (cadenceRpm !== undefined) {
+          telemetry.cadenceRpm = Math.round(cadenceRpm);
+        }
+      }
+      return telemetry;
+    },
+  };
+};
+
+const createCscReader = (context: SensorContext): SensorReader => {
+  const crank = new RevolutionCounter({ revolutionModulus: 0x10000, ticksPerSecond: 1024 });
+  const wheel = new RevolutionCounter({ revolutionModulus: 0x100000000, ticksPerSecond: 1024 });
+  return {
+    read(data, now) {
+      if (!data.length) {
+        return undefined;
+      }
+      const flags = data.readUInt8(0);
+      const telemetry: TelemetryPayload = {};
+      let offset = 1;
+
+      if (flags & CSC_FLAG_WHEEL_REVOLUTION_PRESENT) {
+        if (data.length < offset + 6) return undefined;
+        const wheelRpm = wheel.update(data.readUInt32LE(offset), data.readUInt16LE(offset + 4), now);
+        offset += 6;
+        if (wheelRpm !== undefined && context.wheelCircumferenceMm) {
+          telemetry.speedKph = Math.round(((wheelRpm * context.wheelCircumferenceMm * 60) / 1e6) * 100) / 100;
+        }
+      }
+
+      if (flags & CSC_FLAG_CRANK_REVOLUTION_PRESENT) {
+        if (data.length < offset + 4) return undefined;
+        const cadenceRpm = crank.update(data.readUInt16LE(offset), data.readUInt16LE(offset + 2), now);
+        if (cadenceRpm !== undefined) {
+          telemetry.cadenceRpm = Math.round(cadenceRpm);
+        }
+      }
+
+      return Object.keys(telemetry).length ? telemetry : undefined;
+    },
+  };
+};
+
+/**
+ * Known sensor kinds in classification order: a trainer that also advertises
+ * Cycling Power is still a trainer, and a power meter that also advertises
+ * CSC is still a power meter.
+ */
+export const SENSOR_PROFILES: SensorProfile[] = [
+  {
+    kind: 'trainer',
+    label: 'Trainer',
+    serviceUuid: FTMS_SERVICE_UUID,
+    metrics: ['power', 'cadence', 'speed', 'resistance', 'distance', 'heartRate'],
+  },
+  {
+    kind: 'powerMeter',
+    label: 'Power meter',
+    serviceUuid: CYCLING_POWER_SERVICE_UUID,
+    measurementUuid: CYCLING_POWER_MEASUREMENT_UUID,
+    metrics: ['power', 'cadence'],
+    createReader: createCyclingPowerReader,
+  },
+  {
+    kind: 'cadenceSensor',
+    label: 'Speed/cadence sensor',
+    serviceUuid: CSC_SERVICE_UUID,
+    measurementUuid: CSC_MEASUREMENT_UUID,
+    metrics: ['cadence', 'speed'],
+    createReader: createCscReader,
+  },
+  {
+    kind: 'heartRateMonitor',
+    label: 'Heart rate monitor',
+    serviceUuid: HEART_RATE_SERVICE_UUID,
+    measurementUuid: HEART_RATE_MEASUREMENT_UUID,
+    metrics: ['heartRate'],
+    createReader: createHeartRateReader,
+  },
+];
+
+export const findProfile = (kind: DeviceKind): SensorProfile | undefined =>
+  SENSOR_PROFILES.find((profile) => profile.kind === kind);
+
+export const classifyServices = (serviceUuids: string[]): SensorProfile | undefined =>
+  SENSOR_PROFILES.find((profile) => serviceUuids.includes(profile.serviceUuid));
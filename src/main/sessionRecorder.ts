@@ -0,0 +1,357 @@
+import EventEmitter from 'events';
+import { randomUUID } from 'crypto';
+import {
+  SessionBlockProgress,
+  SessionMetrics,
+  SessionRecord,
+  TelemetrySample,
+  TrainerMode,
+  TrainingMode,
+  WorkoutBlockType,
+} from '../types/domain';
+import PersistentStore from './persistentStore';
+import { SessionLifecycleEvent, StartSessionOptions, TelemetryPayload } from './trainerController';
+
+const SAMPLE_INTERVAL_MS = 1000;
+const SAVE_INTERVAL_MS = 30000;
+// Values older than this are not carried into the next sample.
+const VALUE_STALE_MS = 3000;
+const NORMALIZED_POWER_WINDOW = 30;
+
+type SampleField = Exclude<keyof TelemetrySample, 'timestamp' | 'trainerMode'>;
+
+const SAMPLE_FIELDS: SampleField[] = [
+  'powerWatts',
+  'cadenceRpm',
+  'heartRateBpm',
+  'speedKph',
+  'distanceMeters',
+  'resistanceLevel',
+  'energyKcal',
+  'elapsedTimeSeconds',
+];
+
+// Trainer counters run since the trainer was last reset; samples store the
+// amount covered during the session instead.
+type CounterField = 'distanceMeters' | 'energyKcal';
+
+const isCounterField = (key: SampleField): key is CounterField => key === 'distanceMeters' || key === 'energyKcal';
+
+export interface SessionBlockInput {
+  blockId?: string;
+  label: string;
+  type: WorkoutBlockType;
+  targetPowerWatts?: number;
+  targetPowerEndWatts?: number;
+  targetSlopePercent?: number;
+  durationSeconds: number;
+}
+
+const round = (value: number, decimals = 0): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Derives ride metrics from 1 Hz telemetry. Normalized power uses the
+ * classic 30 s rolling average raised to the fourth power.
+ */
+export const computeSessionMetrics = (telemetry: TelemetrySample[]): SessionMetrics => {
+  const metrics: SessionMetrics = {};
+  const values = (key: SampleField): number[] =>
+    telemetry.map((sample) => sample[key]).filter((value): value is number => typeof value === 'number');
+
+  const powers = telemetry.map((sample) => sample.powerWatts ?? 0);
+  const recordedPowers = values('powerWatts');
+  if (recordedPowers.length) {
+    metrics.averagePowerWatts = round(recordedPowers.reduce((acc, value) => acc + value, 0) / recordedPowers.length);
+    metrics.kilojoules = round(powers.reduce((acc, value) => acc + value, 0) / 1000, 1);
+  }
+
+  if (powers.length >= NORMALIZED_POWER_WINDOW) {
+    let windowSum = 0;
+    let fourthPowerSum = 0;
+    let windows = 0;
+    powers.forEach((power, index) => {
+      windowSum += power;
+      if (index >= NORMALIZED_POWER_WINDOW) {
+        windowSum -= powers[index - NORMALIZED_POWER_WINDOW];
+      }
+      if (index >= NORMALIZED_POWER_WINDOW - 1) {
+        fourthPowerSum += (windowSum / NORMALIZED_POWER_WINDOW) ** 4;
+        windows += 1;
+      }
+    });
+    metrics.normalizedPowerWatts = round((fourthPowerSum / windows) ** 0.25);
+  }
+
+  const cadences = values('cadenceRpm');
+  if (cadences.length) {
+    metrics.averageCadenceRpm = round(cadences.reduce((acc, value) => acc + value, 0) / cadences.length);
+  }
+
+  const heartRates = values('heartRateBpm');
+  if (heartRates.length) {
+    metrics.averageHeartRateBpm = round(heartRates.reduce((acc, value) => acc + value, 0) / heartRates.length);
+    metrics.maxHeartRateBpm = Math.max(...heartRates);
+  }
+
+  const distances = values('distanceMeters');
+  if (distances.length) {
+    metrics.distanceMeters = Math.max(...distances);
+  }
+
+  const energies = values('energyKcal');
+  if (energies.length) {
+    metrics.energyKcal = Math.max(...energies);
+  }
+
+  return metrics;
+};
+
+/**
+ * Builds a SessionRecord in the main process while a session runs, so a
+ * renderer reload or crash never loses the ride.
+ */
+export class SessionRecorder extends EventEmitter {
+  private session?: SessionRecord;
+
+  private readonly latest = new Map<SampleField, { value: number; at: number }>();
+
+  private readonly counters = new Map<CounterField, { total: number; last?: number }>();
+
+  private trainerMode: TrainerMode = 'erg';
+
+  private sampleTimer?: NodeJS.Timeout;
+
+  private lastSavedAt = 0;
+
+  private startedAtMs = 0;
+
+  constructor(private readonly store: PersistentStore) {
+    super();
+  }
+
+  get activeSession(): SessionRecord | undefined {
+    return this.session;
+  }
+
+  /**
+   * Marks sessions left running by a previous crash as aborted.
+   */
+  async recoverInterrupted(): Promise<void> {
+    const sessions = await this.store.listSessions();
+    for (const summary of sessions) {
+      const interrupted = summary.state === 'running' || summary.state === 'paused';
+      const session = interrupted ? await this.store.getSession(summary.id) : undefined;
+      if (session) {
+        const lastSample = session.telemetry[session.telemetry.length - 1];
+        await this.store.upsertSession({
+          ...session,
+          state: 'aborted',
+          endedAt: session.endedAt ?? lastSample?.timestamp ?? session.startedAt,
+          metrics: computeSessionMetrics(session.telemetry),
+        });
+      }
+    }
+  }
+
+  async handleLifecycle(event: SessionLifecycleEvent): Promise<void> {
+    switch (event.type) {
+      case 'started':
+        await this.start(event.options);
+        break;
+      case 'paused':
+        await this.pause();
+        break;
+      case 'resumed':
+        await this.resume();
+        break;
+      case 'ended':
+        await this.finish(event.state);
+        break;
+      default:
+        break;
+    }
+  }
+
+  ingest(telemetry: TelemetryPayload): void {
+    const now = Date.now();
+    SAMPLE_FIELDS.forEach((key) => {
+      const value = telemetry[key];
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return;
+      }
+      this.latest.set(key, { value: isCounterField(key) ? this.accumulate(key, value) : value, at: now });
+    });
+  }
+
+  setTrainerMode(mode: TrainerMode): void {
+    this.trainerMode = mode;
+  }
+
+  async markBlock(block: SessionBlockInput): Promise<void> {
+    if (!this.session) {
+      return;
+    }
+    const progress: SessionBlockProgress = {
+      blockId: block.blockId,
+      label: block.label,
+      type: block.type,
+      targetPowerWatts: block.targetPowerWatts,
+      targetPowerEndWatts: block.targetPowerEndWatts,
+      targetSlopePercent: block.targetSlopePercent,
+      startOffsetSeconds: Math.round((Date.now() - this.startedAtMs) / 1000),
+      durationSeconds: block.durationSeconds,
+      completedSeconds: 0,
+    };
+    this.session.blockProgress.push(progress);
+    await this.save(true);
+  }
+
+  private async start(options: StartSessionOptions): Promise<void> {
+    if (this.session) {
+      await this.finish('completed');
+    }
+    const now = new Date();
+    const mode: TrainingMode = options.mode ?? 'freeRide';
+    this.startedAtMs = now.getTime();
+    this.counters.clear();
+    this.session = {
+      id: randomUUID(),
+      mode,
+      state: 'running',
+      startedAt: now.toISOString(),
+      workoutId: options.workoutId,
+      workoutLabel: options.workoutLabel,
+      metrics: {},
+      blockProgress: [],
+      telemetry: [],
+    };
+    if (mode === 'freeRide') {
+      this.session.blockProgress.push({
+        label: 'Free ride',
+        type: 'freeRide',
+        targetPowerWatts:
+          options.targetSlopePercent === undefined && options.targetResistanceLevel === undefined
+            ? options.targetWatts
+            : undefined,
+        targetSlopePercent: options.targetSlopePercent,
+        startOffsetSeconds: 0,
+        durationSeconds: options.durationSeconds ?? 0,
+        completedSeconds: 0,
+      });
+    }
+    this.startSampling();
+    await this.save(true);
+  }
+
+  private async pause(): Promise<void> {
+    if (!this.session || this.session.state !== 'running') {
+      return;
+    }
+    this.stopSampling();
+    this.session.state = 'paused';
+    await this.save(true);
+  }
+
+  private async resume(): Promise<void> {
+    if (!this.session || this.session.state !== 'paused') {
+      return;
+    }
+    this.session.state = 'running';
+    this.startSampling();
+    await this.save(true);
+  }
+
+  private async finish(state: 'completed' | 'aborted'): Promise<void> {
+    if (!this.session) {
+      return;
+    }
+    this.stopSampling();
+    this.session.state = state;
+    this.session.endedAt = new Date().toISOString();
+    await this.save(true);
+    this.session = undefined;
+    this.latest.clear();
+    this.counters.clear();
+  }
+
+  /**
+   * Adds the increase of a trainer counter to the session total. A counter
+   * going backwards means the trainer was reset, so the new reading counts
+   * from zero.
+   */
+  private accumulate(field: CounterField, reading: number): number {
+    const counter = this.counters.get(field) ?? { total: 0 };
+    if (counter.last !== undefined && this.session?.state === 'running') {
+      counter.total += reading >= counter.last ? reading - counter.last : reading;
+    }
+    counter.last = reading;
+    this.counters.set(field, counter);
+    return counter.total;
+  }
+
+  private startSampling(): void {
+    this.stopSampling();
+    this.sampleTimer = setInterval(() => {
+      this.captureSample();
+    }, SAMPLE_INTERVAL_MS);
+  }
+
+  private stopSampling(): void {
+    if (this.sampleTimer) {
+      clearInterval(this.sampleTimer);
+      this.sampleTimer = undefined;
+    }
+  }
+
+  private captureSample(): void {
+    if (!this.session || this.session.state !== 'running') {
+      return;
+    }
+    const now = Date.now();
+    const sample: TelemetrySample = {
+      timestamp: new Date(now).toISOString(),
+      trainerMode: this.trainerMode,
+    };
+    this.latest.forEach(({ value, at }, key) => {
+      if (now - at <= VALUE_STALE_MS) {
+        sample[key] = value;
+      }
+    });
+    this.session.telemetry.push(sample);
+
+    const activeBlock = this.session.blockProgress[this.session.blockProgress.length - 1];
+    if (activeBlock) {
+      activeBlock.completedSeconds += SAMPLE_INTERVAL_MS / 1000;
+    }
+
+    if (now - this.lastSavedAt >= SAVE_INTERVAL_MS) {
+      void this.save(false);
+    }
+  }
+
+  private async save(notify: boolean): Promise<void> {
+    if (!this.session) {
+      return;
+    }
+    this.lastSavedAt = Date.now();
+    this.session.metrics = computeSessionMetrics(this.session.telemetry);
+    const snapshot: SessionRecord = {
+      ...this.session,
+      blockProgress: this.session.blockProgress.map((block) => ({ ...block })),
+      telemetry: [...this.session.telemetry],
+    };
+    try {
+      await this.store.upsertSession(snapshot);
+      if (notify) {
+        this.emit('session', snapshot);
+      }
+    } catch (error) {
+      console.error('Failed to save session', error);
+    }
+  }
+}
+
+export default SessionRecorder;
@@ -3,29 +3,92 @@ import noble, {
   Characteristic,
   Peripheral,
 } from '@abandonware/noble';
+import {
+  DeviceCalibrationState,
+  DeviceKind,
+  DeviceSnapshot,
+  PowerSource,
+  TrainerMode,
+  TrainingMode,
+} from '../types/domain';
+import FtmsControlPoint, { ControlPointError, ControlPointRequestOptions } from './ftmsControlPoint';
+import { MachineStatusEvent, parseFitnessMachineStatus, SpinDownStatus } from './fitnessMachineStatus';
+import PowerMatcher, { PowerMatchSettings, PowerMatchState } from './powerMatch';
+import DeviceManager, { ReconnectState } from './deviceManager';
+import { FTMS_SERVICE_UUID } from './sensorProfiles';
 
 export interface ConnectOptions {
   deviceName?: string;
   timeoutMs?: number;
   deviceId?: string;
-  deviceKind?: 'trainer' | 'heart-rate';
+  deviceKind?: DeviceKind;
 }
 
 export interface StartSessionOptions {
-  targetWatts: number;
+  targetWatts?: number;
+  targetSlopePercent?: number;
+  targetResistanceLevel?: number;
   durationSeconds?: number;
+  mode?: TrainingMode;
+  workoutId?: string;
+  workoutLabel?: string;
+}
+
+export type SessionLifecycleEvent =
+  | { type: 'started'; options: StartSessionOptions }
+  | { type: 'paused' }
+  | { type: 'resumed' }
+  | { type: 'ended'; state: 'completed' | 'aborted' };
+
+export interface ResistanceRange {
+  minimum: number;
+  maximum: number;
+  increment: number;
+}
+
+export interface PowerRange {
+  minimum: number;
+  maximum: number;
+  increment: number;
+}
+
+export interface TrainerCapabilities {
+  /** False until the Fitness Machine Feature characteristic has been read. */
+  featuresKnown: boolean;
+  supportedModes: TrainerMode[];
+  spinDownSupported: boolean;
+  powerRange: PowerRange;
+  resistanceRange: ResistanceRange;
+}
+
+export interface SimulationParameters {
+  gradePercent: number;
+  windSpeedMps?: number;
+  rollingResistance?: number;
+  windResistance?: number;
 }
 
 export interface DisconnectOptions {
   deviceId?: string;
-  deviceKind?: 'trainer' | 'heart-rate';
+  deviceKind?: DeviceKind;
 }
 
 export interface TelemetryPayload {
   speedKph?: number;
+  averageSpeedKph?: number;
   cadenceRpm?: number;
+  averageCadenceRpm?: number;
+  distanceMeters?: number;
+  resistanceLevel?: number;
   powerWatts?: number;
+  averagePowerWatts?: number;
+  energyKcal?: number;
+  energyPerHourKcal?: number;
+  energyPerMinuteKcal?: number;
   heartRateBpm?: number;
+  metabolicEquivalent?: number;
+  elapsedTimeSeconds?: number;
+  remainingTimeSeconds?: number;
 }
 
 export interface StatusPayload {
@@ -35,22 +98,72 @@ export interface StatusPayload {
   scanning: boolean;
   deviceId?: string;
   paused?: boolean;
+  reconnecting?: boolean;
+  powerSource?: PowerSource;
+  powerMeterConnected?: boolean;
+  cadenceSensorConnected?: boolean;
+  wheelCircumferenceMm?: number;
   message?: string;
+  capabilities?: TrainerCapabilities;
 }
 
-const FTMS_SERVICE_UUID = '1826';
 const FTMS_CONTROL_POINT_UUID = '2ad9';
 const FTMS_INDOOR_BIKE_UUID = '2ad2';
 const FTMS_STATUS_UUID = '2ada';
-const HEART_RATE_SERVICE_UUID = '180d';
-const HEART_RATE_MEASUREMENT_UUID = '2a37';
-const DEVICE_STALE_MS = 15000;
+const FTMS_RESISTANCE_RANGE_UUID = '2ad6';
+const FTMS_FEATURE_UUID = '2acc';
+const FTMS_POWER_RANGE_UUID = '2ad8';
 
 const FTMS_REQUEST_CONTROL = 0x00;
 const FTMS_RESET = 0x01;
+const FTMS_SET_TARGET_RESISTANCE = 0x04;
 const FTMS_SET_TARGET_POWER = 0x05;
 const FTMS_START_RESUME = 0x07;
 const FTMS_STOP_PAUSE = 0x08;
+const FTMS_SET_SIMULATION_PARAMETERS = 0x11;
+const FTMS_SPIN_DOWN_CONTROL = 0x13;
+
+const SPIN_DOWN_START = 0x01;
+const SPIN_DOWN_IGNORE = 0x02;
+// A spin down takes well under a minute once the rider is up to speed.
+const SPIN_DOWN_TIMEOUT_MS = 120000;
+
+// Defaults for a road bike on a smooth surface, see FTMS spec section 4.16.2.18.
+const DEFAULT_ROLLING_RESISTANCE = 0.004;
+const DEFAULT_WIND_RESISTANCE = 0.51;
+const MAX_GRADE_PERCENT = 40;
+
+// Set Target Resistance Level takes a UINT8 with 0.1 resolution, hence 0–25.5.
+const DEFAULT_RESISTANCE_RANGE: ResistanceRange = { minimum: 0, maximum: 25.5, increment: 0.1 };
+const DEFAULT_POWER_RANGE: PowerRange = { minimum: 0, maximum: 2500, increment: 1 };
+
+// Target setting feature bits from the Fitness Machine Feature characteristic.
+const FTMS_TARGET_RESISTANCE_SUPPORTED = 1 << 2;
+const FTMS_TARGET_POWER_SUPPORTED = 1 << 3;
+const FTMS_SIMULATION_SUPPORTED = 1 << 13;
+const FTMS_SPIN_DOWN_SUPPORTED = 1 << 15;
+
+const createDefaultCapabilities = (): TrainerCapabilities => ({
+  featuresKnown: false,
+  supportedModes: ['erg', 'slope', 'resistance'],
+  spinDownSupported: false,
+  powerRange: { ...DEFAULT_POWER_RANGE },
+  resistanceRange: { ...DEFAULT_RESISTANCE_RANGE },
+});
+
+const CONTROL_REACQUIRE_COOLDOWN_MS = 10000;
+
+const POWER_MATCH_INTERVAL_MS = 1000;
+
+// Best effort on the way out: don't keep the app from quitting.
+const SHUTDOWN_REQUEST_OPTIONS: ControlPointRequestOptions = { timeoutMs: 1000, retries: 0 };
+
+const MODE_LABELS: Record<TrainerMode, string> = {
+  erg: 'ERG',
+  slope: 'Slope',
+  level: 'Level',
+  resistance: 'Resistance',
+};
 
 // Flags from FTMS Indoor bike data characteristic, see Bluetooth SIG spec.
 const FTMS_FLAG_MORE_DATA = 1 << 0;
@@ -67,44 +180,121 @@ const FTMS_FLAG_MET_EQUIPMENT_PRESENT = 1 << 10;
 const FTMS_FLAG_ELAPSED_TIME_PRESENT = 1 << 11;
 const FTMS_FLAG_REMAINING_TIME_PRESENT = 1 << 12;
 
-export interface DiscoveredDevice {
-  id: string;
-  label: string;
-  name?: string;
-  identifier?: string;
-  services: string[];
-  rssi?: number;
-  kind: 'trainer' | 'heart-rate' | 'unknown';
-  connectable: boolean;
-  connected: boolean;
-  lastSeen: number;
-}
+// Parts of a split Indoor Bike Data record arrive back to back; anything older
+// belongs to a record whose final packet was lost.
+const MORE_DATA_MAX_AGE_MS = 1000;
+
+/**
+ * Reads the optional Indoor Bike Data fields in spec order. Fields the
+ * trainer marks as unavailable (all bits set) are left out, and a truncated
+ * packet stops at the last complete field.
+ */
+const parseIndoorBikeData = (data: Buffer, flags: number): TelemetryPayload => {
+  const telemetry: TelemetryPayload = {};
+  let offset = 2;
+  const has = (size: number) => offset + size <= data.length;
+  const readUInt8 = () => {
+    const value = data.readUInt8(offset);
+    offset += 1;
+    return value;
+  };
+  const readUInt16 = () => {
+    const value = data.readUInt16LE(offset);
+    offset += 2;
+    return value;
+  };
+  const readInt16 = () => {
+    const value = data.readInt16LE(offset);
+    offset += 2;
+    return value;
+  };
 
-export class TrainerController extends EventEmitter {
-  private static formatIdentifier(raw?: string): string | undefined {
-    if (!raw) return undefined;
-    const cleaned = raw.replace(/[^a-fA-F0-9]/g, '').toLowerCase();
-    if (!cleaned) return undefined;
-    const tail = cleaned.slice(-6);
-    if (tail.length < 4) {
-      return cleaned.toUpperCase();
-    }
-    const segments = tail.match(/.{1,2}/g);
-    if (!segments) {
-      return tail.toUpperCase();
-    }
-    return segments.join(':').toUpperCase();
+  if (!(flags & FTMS_FLAG_MORE_DATA)) {
+    if (!has(2)) return telemetry;
+    telemetry.speedKph = readUInt16() / 100;
   }
 
-  private static buildDeviceLabel(peripheral: Peripheral): string {
-    const advertisedName = (peripheral.advertisement?.localName || '').trim();
-    const identifier = TrainerController.formatIdentifier(peripheral.uuid || peripheral.id);
-    const parts: string[] = [];
-    parts.push(advertisedName || `FTMS service ${FTMS_SERVICE_UUID}`);
-    if (identifier) {
-      parts.push(identifier);
-    }
-    return parts.join(' • ');
+  if (flags & FTMS_FLAG_AVG_SPEED_PRESENT) {
+    if (!has(2)) return telemetry;
+    telemetry.averageSpeedKph = readUInt16() / 100;
+  }
+
+  if (flags & FTMS_FLAG_INST_CADENCE_PRESENT) {
+    if (!has(2)) return telemetry;
+    telemetry.cadenceRpm = readUInt16() / 2;
+  }
+
+  if (flags & FTMS_FLAG_AVG_CADENCE_PRESENT) {
+    if (!has(2)) return telemetry;
+    telemetry.averageCadenceRpm = readUInt16() / 2;
+  }
+
+  if (flags & FTMS_FLAG_TOTAL_DISTANCE_PRESENT) {
+    if (!has(3)) return telemetry;
+    telemetry.distanceMeters = data.readUIntLE(offset, 3);
+    offset += 3;
+  }
+
+  if (flags & FTMS_FLAG_RESISTANCE_LEVEL_PRESENT) {
+    if (!has(2)) return telemetry;
+    telemetry.resistanceLevel = readInt16();
+  }
+
+  if (flags & FTMS_FLAG_INST_POWER_PRESENT) {
+    if (!has(2)) return telemetry;
+    telemetry.powerWatts = readInt16();
+  }
+
+  if (flags & FTMS_FLAG_AVG_POWER_PRESENT) {
+    if (!has(2)) return telemetry;
+    telemetry.averagePowerWatts = readInt16();
+  }
+
+  if (flags & FTMS_FLAG_EXPENDED_ENERGY_PRESENT) {
+    if (!has(5)) return telemetry;
+    const total = readUInt16();
+    const perHour = readUInt16();
+    const perMinute = readUInt8();
+    if (total !== 0xffff) telemetry.energyKcal = total;
+    if (perHour !== 0xffff) telemetry.energyPerHourKcal = perHour;
+    if (perMinute !== 0xff) telemetry.energyPerMinuteKcal = perMinute;
+  }
+
+  if (flags & FTMS_FLAG_HEART_RATE_PRESENT) {
+    if (!has(1)) return telemetry;
+    telemetry.heartRateBpm = readUInt8();
+  }
+
+  if (flags & FTMS_FLAG_MET_EQUIPMENT_PRESENT) {
+    if (!has(1)) return telemetry;
+    telemetry.metabolicEquivalent = readUInt8() / 10;
+  }
+
+  if (flags & FTMS_FLAG_ELAPSED_TIME_PRESENT) {
+    if (!has(2)) return telemetry;
+    telemetry.elapsedTimeSeconds = readUInt16();
+  }
+
+  if (flags & FTMS_FLAG_REMAINING_TIME_PRESENT) {
+    if (!has(2)) return telemetry;
+    telemetry.remainingTimeSeconds = readUInt16();
+  }
+
+  return telemetry;
+};
+
+export class TrainerController extends EventEmitter {
+  /**
+   * Clamps a target into the trainer's supported range and snaps it to the
+   * advertised increment.
+   */
+  private static clampToRange(value: number, range: { minimum: number; maximum: number; increment: number }): number {
+    const clamped = Math.max(range.minimum, Math.min(value, range.maximum));
+    if (range.increment <= 0) {
+      return clamped;
+    }
+    const stepped = range.minimum + Math.round((clamped - range.minimum) / range.increment) * range.increment;
+    return Math.min(stepped, range.maximum);
   }
 
   private peripheral?: Peripheral;
@@ -113,11 +303,30 @@ export class TrainerController extends EventEmitter {
 
   private controlPointCharacteristic?: Characteristic;
 
-  private statusCharacteristic?: Characteristic;
+  private controlPoint?: FtmsControlPoint;
+
+  private pendingBikeData?: { telemetry: TelemetryPayload; at: number };
+
+  private lastReportedControlError?: ControlPointError;
+
+  private lastControlReacquireAt = 0;
+
+  private trainerReconnect?: ReconnectState;
 
-  private heartRatePeripheral?: Peripheral;
+  private trainerDisconnectRequested = false;
 
-  private heartRateCharacteristic?: Characteristic;
+  private powerSource: PowerSource = 'trainer';
+
+  private readonly powerMatcher = new PowerMatcher();
+
+  private powerMatchTimer?: NodeJS.Timeout;
+
+  private lastPowerMatchKey = '';
+
+  // What was last written to the trainer: the target plus any power-match offset.
+  private lastCommandedWatts?: number;
+
+  private statusCharacteristic?: Characteristic;
 
   private isControlling = false;
 
@@ -131,26 +340,52 @@ export class TrainerController extends EventEmitter {
 
   private currentTargetWatts = 0;
 
-  private isPaused = false;
+  private currentSimulation: SimulationParameters = { gradePercent: 0 };
 
-  private connectedDeviceLabel?: string;
+  private trainerMode: TrainerMode = 'erg';
 
-  private connectedDeviceId?: string;
+  private currentResistanceLevel = 0;
 
-  private connectedHeartRateId?: string;
+  private capabilities: TrainerCapabilities = createDefaultCapabilities();
 
-  private readonly discoveredPeripherals = new Map<string, Peripheral>();
+  private calibration?: DeviceCalibrationState;
+
+  private calibrationTimer?: NodeJS.Timeout;
+
+  private isPaused = false;
 
-  private readonly discoveredDevices = new Map<string, DiscoveredDevice>();
+  private connectedDeviceLabel?: string;
 
-  private discovering = false;
+  private connectedDeviceId?: string;
 
-  private readonly handleDiscoverBound = this.handleDiscover.bind(this);
+  private readonly devices = new DeviceManager();
+
+  // auto-connects run one at a time; each stops the scan while it connects
+  private autoConnectQueue: Promise<void> = Promise.resolve();
+
+  constructor() {
+    super();
+    this.devices.on('devices', (devices: DeviceSnapshot[]) => this.emit('devices', devices));
+    this.devices.on('telemetry', (telemetry: TelemetryPayload) => this.emit('telemetry', telemetry));
+    this.devices.on('device-connected', (device: DeviceSnapshot) => this.emit('device-connected', device));
+    this.devices.on('device-info', (device: DeviceSnapshot) => this.emit('device-info', device));
+    this.devices.on('status', (partial: Partial<StatusPayload>) => this.emitStatus(partial));
+    this.devices.on('auto-connect', (device: DeviceSnapshot) => this.queueAutoConnect(device));
+    // power match compares against the meter whichever source is recorded
+    this.devices.on('reading', (kind: DeviceKind, telemetry: TelemetryPayload) => {
+      if (kind === 'powerMeter' && typeof telemetry.powerWatts === 'number') {
+        this.powerMatcher.addReading(telemetry.powerWatts);
+      }
+    });
+  }
 
   async connect(options: ConnectOptions = {}): Promise<string | undefined> {
     const kind = this.resolveDeviceKind(options.deviceId, options.deviceKind);
-    if (kind === 'heart-rate') {
-      return this.connectHeartRate(options);
+    if (kind !== 'trainer') {
+      if (!options.deviceId) {
+        throw new Error('Sensor deviceId is required');
+      }
+      return this.devices.connect(options.deviceId);
     }
 
     if (this.peripheral) {
@@ -158,9 +393,15 @@ export class TrainerController extends EventEmitter {
       return this.connectedDeviceLabel;
     }
 
+    if (this.trainerReconnect) {
+      this.trainerReconnect.cancelled = true;
+      this.trainerReconnect = undefined;
+      this.teardownTrainer('Trainer reconnect cancelled');
+    }
+
     const { deviceId } = options;
     if (deviceId) {
-      const known = this.discoveredPeripherals.get(deviceId);
+      const known = this.devices.getPeripheral(deviceId);
       if (known) {
         await this.stopDiscovery().catch(() => undefined);
         await this.bindPeripheral(known);
@@ -192,142 +433,178 @@ export class TrainerController extends EventEmitter {
     return this.connectedDeviceLabel;
   }
 
-  private async connectHeartRate(options: ConnectOptions): Promise<string | undefined> {
-    if (this.heartRatePeripheral && this.connectedHeartRateId) {
-      return this.discoveredDevices.get(this.connectedHeartRateId)?.label;
-    }
+  /**
+   * Sets the wheel size used to turn CSC wheel revolutions into speed, for
+   * one sensor or for every connected one.
+   */
+  setWheelCircumference(millimeters: number, deviceId?: string): number {
+    const wheelCircumferenceMm = this.devices.setWheelCircumference(millimeters, deviceId);
+    this.emitStatus({ message: `Wheel circumference set to ${wheelCircumferenceMm} mm` });
+    return wheelCircumferenceMm;
+  }
 
-    const { deviceId } = options;
-    if (!deviceId) {
-      throw new Error('Heart rate monitor deviceId is required');
-    }
-    const peripheral = this.discoveredPeripherals.get(deviceId);
-    if (!peripheral) {
-      throw new Error('Heart rate monitor not found');
-    }
+  getConnectedCadenceSensor(): DeviceSnapshot | undefined {
+    return this.devices.connectedOf('cadenceSensor')[0];
+  }
 
-    await this.stopDiscovery().catch(() => undefined);
-    await this.bindHeartRatePeripheral(peripheral);
-    return this.discoveredDevices.get(deviceId)?.label ?? TrainerController.buildDeviceLabel(peripheral);
+  /**
+   * Chooses which device's power ends up in telemetry and recordings. Cadence
+   * is unaffected: it already prefers the power meter over the trainer. The
+   * trainer keeps being controlled either way; while the power meter is
+   * missing the trainer fills in.
+   */
+  setPowerSource(source: PowerSource): PowerSource {
+    this.powerSource = source;
+    this.devices.setSourcePriority('power', source === 'powerMeter' ? ['powerMeter', 'trainer'] : ['trainer', 'powerMeter']);
+    this.emitStatus({ message: source === 'powerMeter' ? 'Recording power from the power meter' : 'Recording power from the trainer' });
+    return this.powerSource;
   }
 
-  private async disconnectHeartRate(): Promise<void> {
-    if (!this.heartRatePeripheral) {
-      return;
-    }
-    const peripheral = this.heartRatePeripheral;
-    try {
-      if (peripheral.state === 'connected' || peripheral.state === 'connecting') {
-        await peripheral.disconnectAsync();
-      }
-    } catch (error) {
-      // ignore disconnect errors
-    }
+  getPowerSource(): PowerSource {
+    return this.powerSource;
   }
 
-  async startDiscovery(): Promise<void> {
-    if (this.discovering) {
-      this.emitDevices();
-      return;
-    }
+  /**
+   * Power match keeps the external power meter on target by nudging the
+   * wattage sent to the trainer. It only acts during a running ERG session
+   * with a power meter connected.
+   */
+  setPowerMatch(settings: Partial<PowerMatchSettings>): PowerMatchState {
+    const wasEnabled = this.powerMatcher.settings.enabled;
+    const next = this.powerMatcher.configure(settings);
+    if (next.enabled && !this.powerMatchTimer) {
+      this.powerMatchTimer = setInterval(() => this.tickPowerMatch(), POWER_MATCH_INTERVAL_MS);
+    } else if (!next.enabled && this.powerMatchTimer) {
+      clearInterval(this.powerMatchTimer);
+      this.powerMatchTimer = undefined;
+    }
+    if (wasEnabled && !next.enabled && this.isPowerMatchApplicable()) {
+      // drop the correction right away
+      void this.writeTargetPower(this.currentTargetWatts).catch(() => undefined);
+    }
+    this.emitPowerMatch(true);
+    return this.getPowerMatchState();
+  }
 
-    const begin = async (): Promise<void> => {
-      this.discovering = true;
-      for (const id of [...this.discoveredDevices.keys()]) {
-        if (id !== this.connectedDeviceId && id !== this.connectedHeartRateId) {
-          this.discoveredDevices.delete(id);
-          this.discoveredPeripherals.delete(id);
-        }
-      }
-      this.emitDevices();
-      noble.removeListener('discover', this.handleDiscoverBound);
-      noble.on('discover', this.handleDiscoverBound);
-      try {
-        await noble.startScanningAsync([], true);
-        this.emitStatus({ scanning: true, message: 'Scanning for devices' });
-      } catch (error) {
-        noble.removeListener('discover', this.handleDiscoverBound);
-        this.discovering = false;
-        throw error;
-      }
+  getPowerMatchState(): PowerMatchState {
+    const settings = this.powerMatcher.settings;
+    const meterWatts = this.powerMatcher.smoothedWatts();
+    return {
+      ...settings,
+      active: settings.enabled && this.isPowerMatchApplicable(),
+      targetWatts: this.currentTargetWatts,
+      offsetWatts: this.powerMatcher.offsetWatts,
+      meterWatts: meterWatts !== undefined ? Math.round(meterWatts) : undefined,
     };
+  }
 
-    if (noble._state === 'poweredOn') {
-      await begin();
-      return;
+  getConnectedPowerMeter(): DeviceSnapshot | undefined {
+    return this.devices.connectedOf('powerMeter')[0];
+  }
+
+  async startDiscovery(): Promise<void> {
+    await this.devices.startDiscovery();
+  }
+
+  /**
+   * Hands over the devices the rider connected before. Those with
+   * auto-connect on are connected as soon as they advertise, so a scan is
+   * started right away.
+   */
+  rememberDevices(devices: DeviceSnapshot[]): void {
+    devices.forEach((device) => this.devices.setAutoConnect(device.id, device.autoConnect !== false, device.kind));
+    if (devices.some((device) => device.autoConnect !== false)) {
+      void this.startDiscovery().catch(() => undefined);
     }
+  }
 
-    await new Promise<void>((resolve, reject) => {
-      const handleState = async (state: string) => {
-        if (state === 'poweredOn') {
-          noble.removeListener('stateChange', handleState);
-          try {
-            await begin();
-            resolve();
-          } catch (error) {
-            reject(error);
-          }
-        } else if (state === 'unsupported' || state === 'unauthorized') {
-          reject(new Error(`Bluetooth adapter state ${state}`));
-        }
-      };
-      noble.on('stateChange', handleState);
-    });
+  setAutoConnect(deviceId: string, enabled: boolean, kind?: DeviceKind): void {
+    this.devices.setAutoConnect(deviceId, enabled, kind);
+  }
+
+  getDevice(deviceId: string): DeviceSnapshot | undefined {
+    return this.devices.getSnapshot(deviceId);
   }
 
   async stopDiscovery(): Promise<void> {
-    if (!this.discovering) return;
-    this.discovering = false;
-    noble.removeListener('discover', this.handleDiscoverBound);
-    try {
-      await noble.stopScanningAsync();
-    } catch (error) {
-      // ignore stop scanning errors
-    }
-    this.emitStatus({ scanning: false });
+    await this.devices.stopDiscovery();
   }
 
   async startSession(options: StartSessionOptions): Promise<void> {
     await this.ensureConnected();
-    const { targetWatts, durationSeconds } = options;
+    const { targetWatts, targetSlopePercent, targetResistanceLevel, durationSeconds } = options;
     await this.requestControl();
-    await this.setTargetWatts(targetWatts);
+    if (typeof targetResistanceLevel === 'number') {
+      await this.setResistanceLevel(targetResistanceLevel);
+    } else if (typeof targetSlopePercent === 'number') {
+      await this.setSlope({ ...this.currentSimulation, gradePercent: targetSlopePercent });
+    } else {
+      await this.setTargetWatts(targetWatts ?? this.currentTargetWatts);
+    }
     await this.startOrResume();
     this.isRunning = true;
     this.isPaused = false;
     this.sessionTimerRemainingMs = durationSeconds && durationSeconds > 0 ? durationSeconds * 1000 : undefined;
     this.scheduleSessionTimer();
-    this.emitStatus({ message: 'ERG session running', running: true, controlling: this.isControlling, paused: false });
+    this.emitSession({ type: 'started', options });
+    this.emitStatus({ message: `${this.describeMode()} session running`, running: true, controlling: this.isControlling, paused: false });
   }
 
-  async stopSession(): Promise<void> {
-    if (!this.peripheral || !this.controlPointCharacteristic) {
+  async stopSession(outcome: 'completed' | 'aborted' = 'completed'): Promise<void> {
+    const canWrite = Boolean(this.peripheral && this.controlPointCharacteristic);
+    if (!canWrite && !this.trainerReconnect) {
       return;
     }
 
-    await this.writeControlPoint(Buffer.from([FTMS_STOP_PAUSE]));
-    this.isRunning = false;
-    this.isPaused = false;
-    this.sessionTimerRemainingMs = undefined;
-    this.clearSessionTimer();
-    this.emitStatus({ message: 'ERG session stopped', running: false, controlling: this.isControlling, paused: false });
+    // The session ends locally even when the trainer refuses or misses the
+    // stop, so the recorder always finalises the ride.
+    try {
+      if (canWrite) {
+        await this.writeControlPoint(Buffer.from([FTMS_STOP_PAUSE]));
+      }
+    } finally {
+      const hadSession = this.isRunning || this.isPaused;
+      this.isRunning = false;
+      this.isPaused = false;
+      this.sessionTimerRemainingMs = undefined;
+      this.clearSessionTimer();
+      if (hadSession) {
+        this.emitSession({ type: 'ended', state: outcome });
+      }
+      this.emitStatus({ message: `${this.describeMode()} session stopped`, running: false, controlling: this.isControlling, paused: false });
+    }
   }
 
   async disconnect(options: DisconnectOptions = {}): Promise<void> {
     const kind = this.resolveDeviceKind(options.deviceId, options.deviceKind);
-    if (kind === 'heart-rate') {
-      await this.disconnectHeartRate();
+    if (kind !== 'trainer') {
+      if (options.deviceId) {
+        await this.devices.disconnect(options.deviceId);
+      } else {
+        await this.devices.disconnectKind(kind);
+      }
       return;
     }
 
+    const trainerId = this.connectedDeviceId ?? this.trainerReconnect?.deviceId;
+    if (trainerId) {
+      this.devices.holdAutoConnect(trainerId);
+    }
+    if (this.trainerReconnect) {
+      this.trainerReconnect.cancelled = true;
+      this.trainerReconnect = undefined;
+      this.teardownTrainer('Trainer disconnected');
+      return;
+    }
     if (!this.peripheral) {
       return;
     }
     try {
-      await this.stopSession();
+      await this.stopSession('aborted');
     } catch (error) {
       // ignore stop errors during disconnect
     }
+    this.trainerDisconnectRequested = true;
     if (this.peripheral && this.peripheral.state === 'connected') {
       try {
         await this.peripheral.disconnectAsync();
@@ -353,7 +630,8 @@ export class TrainerController extends EventEmitter {
       this.sessionTimerRemainingMs = Math.max(0, this.sessionTimerRemainingMs - elapsed);
     }
     this.clearSessionTimer();
-    this.emitStatus({ message: 'ERG session paused', running: false, controlling: this.isControlling, paused: true });
+    this.emitSession({ type: 'paused' });
+    this.emitStatus({ message: `${this.describeMode()} session paused`, running: false, controlling: this.isControlling, paused: true });
   }
 
   async resumeSession(): Promise<void> {
@@ -367,21 +645,147 @@ export class TrainerController extends EventEmitter {
     this.isRunning = true;
     this.isPaused = false;
     this.scheduleSessionTimer();
-    this.emitStatus({ message: 'ERG session running', running: true, controlling: this.isControlling, paused: false });
+    this.emitSession({ type: 'resumed' });
+    this.emitStatus({ message: `${this.describeMode()} session running`, running: true, controlling: this.isControlling, paused: false });
   }
 
   async setTargetWatts(watts: number): Promise<void> {
-    await this.ensureConnected();
-    await this.requestControl();
-    const safeWatts = Math.max(0, Math.min(Math.round(watts), 2500));
-    const payload = Buffer.alloc(3);
-    payload.writeUInt8(FTMS_SET_TARGET_POWER, 0);
-    payload.writeInt16LE(safeWatts, 1);
-    await this.writeControlPoint(payload);
+    const live = await this.prepareControl();
+    this.assertModeSupported('erg');
+    const safeWatts = Math.round(TrainerController.clampToRange(watts, this.capabilities.powerRange));
+    if (safeWatts !== this.currentTargetWatts || this.trainerMode !== 'erg') {
+      this.powerMatcher.targetChanged();
+    }
+    if (live) {
+      await this.writeTargetPower(safeWatts);
+    }
     this.currentTargetWatts = safeWatts;
+    this.setTrainerMode('erg');
     this.emit('target-watts', safeWatts);
   }
 
+  async setSlope(parameters: SimulationParameters): Promise<void> {
+    const live = await this.prepareControl();
+    this.assertModeSupported('slope');
+    const gradePercent = Math.max(-MAX_GRADE_PERCENT, Math.min(parameters.gradePercent, MAX_GRADE_PERCENT));
+    const windSpeedMps = parameters.windSpeedMps ?? 0;
+    const rollingResistance = parameters.rollingResistance ?? DEFAULT_ROLLING_RESISTANCE;
+    const windResistance = parameters.windResistance ?? DEFAULT_WIND_RESISTANCE;
+
+    if (live) {
+      // Resolutions: wind 0.001 m/s, grade 0.01 %, Crr 0.0001, Cw 0.01 kg/m.
+      const payload = Buffer.alloc(7);
+      payload.writeUInt8(FTMS_SET_SIMULATION_PARAMETERS, 0);
+      payload.writeInt16LE(Math.max(-32768, Math.min(Math.round(windSpeedMps * 1000), 32767)), 1);
+      payload.writeInt16LE(Math.round(gradePercent * 100), 3);
+      payload.writeUInt8(Math.max(0, Math.min(Math.round(rollingResistance * 10000), 255)), 5);
+      payload.writeUInt8(Math.max(0, Math.min(Math.round(windResistance * 100), 255)), 6);
+      await this.writeControlPoint(payload);
+    }
+
+    this.currentSimulation = { gradePercent, windSpeedMps, rollingResistance, windResistance };
+    this.setTrainerMode('slope');
+    this.emit('target-slope', gradePercent);
+  }
+
+  async setResistanceLevel(level: number): Promise<void> {
+    const live = await this.prepareControl();
+    this.assertModeSupported('resistance');
+    const safeLevel = Math.round(TrainerController.clampToRange(level, this.capabilities.resistanceRange) * 10) / 10;
+
+    if (live) {
+      const payload = Buffer.alloc(2);
+      payload.writeUInt8(FTMS_SET_TARGET_RESISTANCE, 0);
+      payload.writeUInt8(Math.max(0, Math.min(Math.round(safeLevel * 10), 255)), 1);
+      await this.writeControlPoint(payload);
+    }
+
+    this.currentResistanceLevel = safeLevel;
+    this.setTrainerMode('resistance');
+    this.emit('target-resistance', safeLevel);
+  }
+
+  async nudgeResistance(delta: number): Promise<number> {
+    await this.setResistanceLevel(this.currentResistanceLevel + delta);
+    return this.currentResistanceLevel;
+  }
+
+  getCapabilities(): TrainerCapabilities {
+    return {
+      ...this.capabilities,
+      supportedModes: [...this.capabilities.supportedModes],
+      powerRange: { ...this.capabilities.powerRange },
+      resistanceRange: { ...this.capabilities.resistanceRange },
+    };
+  }
+
+  /**
+   * Starts a spin down. The returned state is the first step; the trainer
+   * then drives the rest through Fitness Machine Status notifications, each
+   * forwarded as a `calibration` event until the result comes in.
+   */
+  async calibrate(): Promise<DeviceCalibrationState> {
+    await this.ensureConnected();
+    if (this.calibration) {
+      return { ...this.calibration };
+    }
+    if (this.isRunning || this.isPaused) {
+      throw new Error('Stop the session before calibrating');
+    }
+    if (this.capabilities.featuresKnown && !this.capabilities.spinDownSupported) {
+      throw new Error('Trainer does not support spin down calibration');
+    }
+    const deviceId = this.connectedDeviceId;
+    if (!deviceId) {
+      throw new Error('Trainer not connected');
+    }
+
+    // Set before writing: the trainer may report the first step before it answers.
+    this.calibration = { deviceId, inProgress: true, startedAt: new Date().toISOString(), step: 'speedUp' };
+    this.calibrationTimer = setTimeout(() => {
+      this.finishCalibration('failure', 'Spin down timed out');
+    }, SPIN_DOWN_TIMEOUT_MS);
+    let response: Buffer;
+    try {
+      await this.requestControl();
+      response = await this.writeControlPoint(Buffer.from([FTMS_SPIN_DOWN_CONTROL, SPIN_DOWN_START]));
+    } catch (error) {
+      this.finishCalibration('failure', `Spin down could not start: ${(error as Error).message}`);
+      throw error;
+    }
+    if (!this.calibration) {
+      throw new Error('Spin down ended before it started');
+    }
+
+    // Response parameters: target speed low then high, UINT16 at 0.01 km/h.
+    if (response.length >= 4) {
+      this.updateCalibration({
+        targetSpeedLowKph: response.readUInt16LE(0) / 100,
+        targetSpeedHighKph: response.readUInt16LE(2) / 100,
+      });
+    } else {
+      this.emit('calibration', { ...this.calibration });
+    }
+    return { ...this.calibration };
+  }
+
+  async cancelCalibration(): Promise<void> {
+    if (!this.calibration) {
+      return;
+    }
+    try {
+      await this.writeControlPoint(Buffer.from([FTMS_SPIN_DOWN_CONTROL, SPIN_DOWN_IGNORE]));
+    } catch (error) {
+      // the trainer drops the spin down on its own if it missed this
+    }
+    this.finishCalibration('failure', 'Spin down cancelled');
+  }
+
+  async nudgeSlope(delta: number): Promise<number> {
+    await this.setSlope({ ...this.currentSimulation, gradePercent: this.currentSimulation.gradePercent + delta });
+    return this.currentSimulation.gradePercent;
+  }
+
   async nudgeWatts(delta: number): Promise<number> {
     const updated = this.currentTargetWatts + delta;
     await this.setTargetWatts(updated);
@@ -389,22 +793,35 @@ export class TrainerController extends EventEmitter {
   }
 
   async shutdown(): Promise<void> {
+    if (this.trainerReconnect) {
+      this.trainerReconnect.cancelled = true;
+      this.trainerReconnect = undefined;
+    }
+    if (this.powerMatchTimer) {
+      clearInterval(this.powerMatchTimer);
+      this.powerMatchTimer = undefined;
+    }
+    if (this.calibration) {
+      this.finishCalibration('failure', 'Spin down interrupted by shutdown');
+    }
     await this.stopDiscovery().catch(() => undefined);
+    if (this.isRunning || this.isPaused) {
+      this.emitSession({ type: 'ended', state: 'aborted' });
+    }
     this.clearSessionTimer();
     this.sessionTimerRemainingMs = undefined;
     if (this.peripheral) {
       try {
-        await this.writeControlPoint(Buffer.from([FTMS_STOP_PAUSE]));
+        await this.writeControlPoint(Buffer.from([FTMS_STOP_PAUSE]), SHUTDOWN_REQUEST_OPTIONS);
       } catch (error) {
         // ignore errors during shutdown
       }
       try {
-        await this.writeControlPoint(Buffer.from([FTMS_RESET]));
+        await this.writeControlPoint(Buffer.from([FTMS_RESET]), SHUTDOWN_REQUEST_OPTIONS);
       } catch (error) {
         // ignore errors during shutdown
       }
     }
-    await this.disconnect({ deviceKind: 'heart-rate' }).catch(() => undefined);
     await this.disconnect();
     this.isControlling = false;
     this.isRunning = false;
@@ -413,20 +830,48 @@ export class TrainerController extends EventEmitter {
       this.connectedDeviceLabel = undefined;
       this.connectedDeviceId = undefined;
     }
-    this.discoveredPeripherals.clear();
-    this.discoveredDevices.clear();
-    this.heartRatePeripheral = undefined;
-    this.heartRateCharacteristic = undefined;
-    this.connectedHeartRateId = undefined;
-    this.emitDevices();
+    await this.devices.shutdown();
+  }
+
+  private queueAutoConnect(device: DeviceSnapshot): void {
+    this.autoConnectQueue = this.autoConnectQueue.then(async () => {
+      if (device.kind === 'trainer' && (this.peripheral || this.trainerReconnect)) {
+        return;
+      }
+      const resumeScan = this.devices.scanning;
+      try {
+        await this.connect({ deviceId: device.id, deviceKind: device.kind });
+      } catch (error) {
+        this.emitStatus({ message: `Auto-connect to ${device.name} failed: ${(error as Error).message}` });
+      }
+      if (resumeScan) {
+        await this.startDiscovery().catch(() => undefined);
+      }
+    });
   }
 
   private async ensureConnected(): Promise<void> {
+    if (this.trainerReconnect) {
+      throw new Error('Trainer is reconnecting');
+    }
     if (!this.peripheral) {
       await this.connect();
     }
   }
 
+  /**
+   * Resolves false while the trainer is reconnecting: the caller then only
+   * records the new target, which is applied once the link is back.
+   */
+  private async prepareControl(): Promise<boolean> {
+    if (this.trainerReconnect) {
+      return false;
+    }
+    await this.ensureConnected();
+    await this.requestControl();
+    return true;
+  }
+
   private async scanAndConnect(options: ConnectOptions): Promise<void> {
     const { deviceName, timeoutMs = 20000, deviceId } = options;
 
@@ -454,10 +899,10 @@ export class TrainerController extends EventEmitter {
         const lowerServices = services.map((s) => s.toLowerCase());
         const matchesService = lowerServices.includes(FTMS_SERVICE_UUID);
         const matchesName = !deviceName || (advertisement.localName || '').toLowerCase().includes(deviceName.toLowerCase());
-        const id = this.getPeripheralId(peripheral);
+        const id = peripheral.id ?? peripheral.uuid;
         const matchesId = !deviceId || id === deviceId;
 
-        this.handleDiscover(peripheral);
+        this.devices.track(peripheral);
 
         if (!matchesService || !matchesName || !matchesId) {
           return;
@@ -487,39 +932,52 @@ export class TrainerController extends EventEmitter {
     });
   }
 
+  /**
+   * Binds the trainer, leaving nothing half bound when it fails so the next
+   * attempt starts clean.
+   */
   private async bindPeripheral(peripheral: Peripheral): Promise<void> {
-    const id = this.getPeripheralId(peripheral);
+    try {
+      await this.attachTrainer(peripheral);
+    } catch (error) {
+      this.resetTrainerLink();
+      this.connectedDeviceLabel = undefined;
+      this.connectedDeviceId = undefined;
+      if (peripheral.state === 'connected') {
+        await peripheral.disconnectAsync().catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  private async attachTrainer(peripheral: Peripheral): Promise<void> {
+    const id = peripheral.id ?? peripheral.uuid;
+    this.trainerDisconnectRequested = false;
     this.peripheral = peripheral;
-    this.connectedDeviceLabel = TrainerController.buildDeviceLabel(peripheral);
+    this.devices.track(peripheral, 'trainer');
+    this.devices.setState(id, 'pairing');
+    this.connectedDeviceLabel = this.devices.labelOf(id);
     this.connectedDeviceId = id;
-    this.discoveredPeripherals.set(id, peripheral);
-    this.handleDiscover(peripheral);
 
     peripheral.once('disconnect', () => {
-      const disconnectedLabel = this.connectedDeviceLabel;
-      this.peripheral = undefined;
-      this.controlPointCharacteristic = undefined;
-      this.indoorBikeCharacteristic = undefined;
-      this.statusCharacteristic = undefined;
-      this.isControlling = false;
-      this.isRunning = false;
-      this.isPaused = false;
-      this.sessionTimerRemainingMs = undefined;
-      this.clearSessionTimer();
-      this.connectedDeviceLabel = undefined;
-      this.connectedDeviceId = undefined;
-      this.emitDevices();
-      const message = disconnectedLabel ? `Trainer disconnected (${disconnectedLabel})` : 'Trainer disconnected';
-      this.emitStatus({ message, connected: false, controlling: false, running: false, paused: false });
+      this.handleTrainerDisconnect(peripheral);
     });
 
     await peripheral.connectAsync();
 
     const { characteristics } = await peripheral.discoverSomeServicesAndCharacteristicsAsync(
       [FTMS_SERVICE_UUID],
-      [FTMS_CONTROL_POINT_UUID, FTMS_INDOOR_BIKE_UUID, FTMS_STATUS_UUID],
+      [
+        FTMS_CONTROL_POINT_UUID,
+        FTMS_INDOOR_BIKE_UUID,
+        FTMS_STATUS_UUID,
+        FTMS_FEATURE_UUID,
+        FTMS_POWER_RANGE_UUID,
+        FTMS_RESISTANCE_RANGE_UUID,
+      ],
     );
 
+    const capabilityCharacteristics: Partial<Record<'feature' | 'power' | 'resistance', Characteristic>> = {};
     characteristics.forEach((characteristic) => {
       const uuid = characteristic.uuid.toLowerCase();
       if (uuid === FTMS_CONTROL_POINT_UUID) {
@@ -528,6 +986,12 @@ export class TrainerController extends EventEmitter {
         this.indoorBikeCharacteristic = characteristic;
       } else if (uuid === FTMS_STATUS_UUID) {
         this.statusCharacteristic = characteristic;
+      } else if (uuid === FTMS_FEATURE_UUID) {
+        capabilityCharacteristics.feature = characteristic;
+      } else if (uuid === FTMS_POWER_RANGE_UUID) {
+        capabilityCharacteristics.power = characteristic;
+      } else if (uuid === FTMS_RESISTANCE_RANGE_UUID) {
+        capabilityCharacteristics.resistance = characteristic;
       }
     });
 
@@ -535,60 +999,112 @@ export class TrainerController extends EventEmitter {
       throw new Error('Trainer does not expose required FTMS characteristics');
     }
 
+    this.controlPoint = new FtmsControlPoint(this.controlPointCharacteristic);
     await this.subscribe(this.indoorBikeCharacteristic, this.handleIndoorBikeNotification);
     await this.subscribe(this.controlPointCharacteristic, this.handleControlPointNotification);
     if (this.statusCharacteristic) {
       await this.subscribe(this.statusCharacteristic, this.handleStatusNotification);
     }
+    await this.readCapabilities(capabilityCharacteristics);
 
-    await this.writeControlPoint(Buffer.from([FTMS_REQUEST_CONTROL]));
-    this.isControlling = true;
-    const message = this.connectedDeviceLabel ? `Trainer connected (${this.connectedDeviceLabel})` : 'Trainer connected';
-    this.emitStatus({ message, connected: true, controlling: true });
-    this.emitDevices();
+    try {
+      await this.writeControlPoint(Buffer.from([FTMS_REQUEST_CONTROL]));
+      this.isControlling = true;
+    } catch (error) {
+      // stay connected for telemetry; control is requested again before each command
+      this.isControlling = false;
+    }
+    const suffix = this.connectedDeviceLabel ? ` (${this.connectedDeviceLabel})` : '';
+    const message = this.isControlling ? `Trainer connected${suffix}` : `Trainer connected without control${suffix}`;
+    this.devices.setState(id, 'connected');
+    this.emitStatus({ message, connected: true, controlling: this.isControlling });
   }
 
-  private async bindHeartRatePeripheral(peripheral: Peripheral): Promise<void> {
-    const id = this.getPeripheralId(peripheral);
-    this.discoveredPeripherals.set(id, peripheral);
-    this.handleDiscover(peripheral);
+  private handleTrainerDisconnect(peripheral: Peripheral): void {
+    if (this.peripheral !== peripheral) {
+      return;
+    }
+    const deviceId = this.connectedDeviceId;
+    const label = this.connectedDeviceLabel;
+    this.resetTrainerLink();
 
-    await peripheral.connectAsync();
+    if (this.trainerReconnect) {
+      // a rebind failed half way, the reconnect loop carries on
+      return;
+    }
+    if (this.trainerDisconnectRequested || !deviceId) {
+      this.trainerDisconnectRequested = false;
+      this.teardownTrainer(label ? `Trainer disconnected (${label})` : 'Trainer disconnected');
+      return;
+    }
 
-    const { characteristics } = await peripheral.discoverSomeServicesAndCharacteristicsAsync(
-      [HEART_RATE_SERVICE_UUID],
-      [HEART_RATE_MEASUREMENT_UUID],
-    );
+    const state: ReconnectState = { deviceId, cancelled: false };
+    this.trainerReconnect = state;
+    this.connectedDeviceId = undefined;
+    this.emitStatus({ message: `Trainer connection lost${label ? ` (${label})` : ''}, reconnecting`, connected: false });
+    void this.devices.reconnect(state, 'Trainer', async (found) => {
+      await this.bindPeripheral(found);
+      this.trainerReconnect = undefined;
+      this.emitStatus({ message: 'Trainer reconnected' });
+      await this.restoreSession();
+    }).then((reconnected) => {
+      if (!reconnected && this.trainerReconnect === state) {
+        this.trainerReconnect = undefined;
+        this.teardownTrainer(label ? `Trainer disconnected (${label})` : 'Trainer disconnected');
+      }
+    });
+  }
 
-    const measurement = characteristics.find(
-      (characteristic) => characteristic.uuid.toLowerCase() === HEART_RATE_MEASUREMENT_UUID,
-    );
+  /**
+   * Forgets everything tied to the BLE link. Session state, targets and
+   * capabilities survive so a reconnect can pick up where the ride was.
+   */
+  private resetTrainerLink(): void {
+    if (this.calibration) {
+      this.finishCalibration('failure', 'Trainer disconnected during spin down');
+    }
+    if (this.connectedDeviceId) {
+      this.devices.setState(this.connectedDeviceId, 'disconnected');
+    }
+    this.peripheral = undefined;
+    this.controlPointCharacteristic = undefined;
+    this.controlPoint?.cancel();
+    this.controlPoint = undefined;
+    this.indoorBikeCharacteristic = undefined;
+    this.pendingBikeData = undefined;
+    this.statusCharacteristic = undefined;
+    this.isControlling = false;
+  }
 
-    if (!measurement) {
-      await peripheral.disconnectAsync().catch(() => undefined);
-      throw new Error('Heart rate monitor does not expose required characteristics');
+  private teardownTrainer(message: string): void {
+    if (this.isRunning || this.isPaused) {
+      this.emitSession({ type: 'ended', state: 'aborted' });
     }
+    this.resetTrainerLink();
+    this.capabilities = createDefaultCapabilities();
+    this.isRunning = false;
+    this.isPaused = false;
+    this.sessionTimerRemainingMs = undefined;
+    this.clearSessionTimer();
+    this.connectedDeviceLabel = undefined;
+    this.connectedDeviceId = undefined;
+    this.emitStatus({ message, connected: false, controlling: false, running: false, paused: false });
+  }
 
-    this.heartRatePeripheral = peripheral;
-    this.heartRateCharacteristic = measurement;
-    this.connectedHeartRateId = id;
-
-    peripheral.once('disconnect', () => {
-      this.heartRatePeripheral = undefined;
-      this.heartRateCharacteristic = undefined;
-      const disconnectedId = this.connectedHeartRateId;
-      this.connectedHeartRateId = undefined;
-      this.emitDevices();
-      const label = disconnectedId ? this.discoveredDevices.get(disconnectedId)?.label : undefined;
-      const message = label ? `Heart rate monitor disconnected (${label})` : 'Heart rate monitor disconnected';
-      this.emitStatus({ message });
-    });
-
-    await this.subscribe(measurement, this.handleHeartRateNotification);
-    this.emitDevices();
-    const label = this.discoveredDevices.get(id)?.label ?? TrainerController.buildDeviceLabel(peripheral);
-    const message = `Heart rate monitor connected${label ? ` (${label})` : ''}`;
-    this.emitStatus({ message });
+  private async restoreSession(): Promise<void> {
+    if (!this.isRunning && !this.isPaused) {
+      return;
+    }
+    try {
+      await this.requestControl();
+      await this.reapplyTarget();
+      if (this.isRunning) {
+        await this.startOrResume();
+      }
+      this.emitStatus({ message: `${this.describeMode()} session restored` });
+    } catch (error) {
+      this.emitStatus({ message: `Could not restore trainer target: ${(error as Error).message}` });
+    }
   }
 
   private async subscribe(characteristic: Characteristic, listener: (data: Buffer) => void): Promise<void> {
@@ -602,6 +1118,68 @@ export class TrainerController extends EventEmitter {
     });
   }
 
+  private async readCapabilities(
+    characteristics: Partial<Record<'feature' | 'power' | 'resistance', Characteristic>>,
+  ): Promise<void> {
+    const read = async (characteristic?: Characteristic): Promise<Buffer | undefined> => {
+      if (!characteristic) return undefined;
+      try {
+        return await characteristic.readAsync();
+      } catch (error) {
+        // optional characteristic, fall back to defaults
+        return undefined;
+      }
+    };
+
+    const capabilities = createDefaultCapabilities();
+
+    const feature = await read(characteristics.feature);
+    if (feature && feature.length >= 8) {
+      const targetSettings = feature.readUInt32LE(4);
+      const modes: TrainerMode[] = [];
+      if (targetSettings & FTMS_TARGET_POWER_SUPPORTED) modes.push('erg');
+      if (targetSettings & FTMS_SIMULATION_SUPPORTED) modes.push('slope');
+      if (targetSettings & FTMS_TARGET_RESISTANCE_SUPPORTED) modes.push('resistance');
+      capabilities.featuresKnown = true;
+      capabilities.supportedModes = modes;
+      capabilities.spinDownSupported = Boolean(targetSettings & FTMS_SPIN_DOWN_SUPPORTED);
+    }
+
+    // Min and max power are SINT16 watts, increment UINT16 watts.
+    const power = await read(characteristics.power);
+    if (power && power.length >= 6) {
+      const minimum = Math.max(0, power.readInt16LE(0));
+      const maximum = power.readInt16LE(2);
+      const increment = power.readUInt16LE(4);
+      if (maximum > minimum) {
+        capabilities.powerRange = { minimum, maximum, increment: increment > 0 ? increment : 1 };
+      }
+    }
+
+    // Min and max resistance are SINT16, increment UINT16, all with 0.1 resolution.
+    const resistance = await read(characteristics.resistance);
+    if (resistance && resistance.length >= 6) {
+      const minimum = resistance.readInt16LE(0) / 10;
+      const maximum = resistance.readInt16LE(2) / 10;
+      const increment = resistance.readUInt16LE(4) / 10;
+      if (maximum > minimum) {
+        capabilities.resistanceRange = {
+          minimum,
+          maximum,
+          increment: increment > 0 ? increment : DEFAULT_RESISTANCE_RANGE.increment,
+        };
+      }
+    }
+
+    this.capabilities = capabilities;
+  }
+
+  private assertModeSupported(mode: TrainerMode): void {
+    if (!this.capabilities.supportedModes.includes(mode)) {
+      throw new Error(`Trainer does not support ${MODE_LABELS[mode]} mode`);
+    }
+  }
+
   private async requestControl(): Promise<void> {
     if (this.isControlling) {
       return;
@@ -616,104 +1194,82 @@ export class TrainerController extends EventEmitter {
     await this.writeControlPoint(Buffer.from([FTMS_START_RESUME]));
   }
 
+  /**
+   * Decodes an Indoor Bike Data notification. Trainers that cannot fit every
+   * field in one packet set "More Data" on the leading packets; those are
+   * buffered and emitted together with the final packet, which carries the
+   * instantaneous speed.
+   */
   private handleIndoorBikeNotification(data: Buffer): void {
     if (data.length < 2) {
       return;
     }
-    const telemetry: TelemetryPayload = {};
-    let offset = 0;
-    const flags = data.readUInt16LE(offset);
-    offset += 2;
-
-    if (!(flags & FTMS_FLAG_MORE_DATA)) {
-      const speedRaw = data.readUInt16LE(offset);
-      offset += 2;
-      telemetry.speedKph = speedRaw / 100;
-    }
-
-    if (flags & FTMS_FLAG_AVG_SPEED_PRESENT) {
-      offset += 2;
-    }
-
-    if (flags & FTMS_FLAG_INST_CADENCE_PRESENT) {
-      const cadenceRaw = data.readUInt16LE(offset);
-      offset += 2;
-      telemetry.cadenceRpm = cadenceRaw / 2;
-    }
-
-    if (flags & FTMS_FLAG_AVG_CADENCE_PRESENT) {
-      offset += 2;
-    }
-
-    if (flags & FTMS_FLAG_TOTAL_DISTANCE_PRESENT) {
-      offset += 3;
-    }
-
-    if (flags & FTMS_FLAG_RESISTANCE_LEVEL_PRESENT) {
-      offset += 2;
-    }
-
-    if (flags & FTMS_FLAG_INST_POWER_PRESENT) {
-      const powerRaw = data.readInt16LE(offset);
-      offset += 2;
-      telemetry.powerWatts = powerRaw;
-    }
-
-    if (flags & FTMS_FLAG_AVG_POWER_PRESENT) {
-      offset += 2;
-    }
-
-    if (flags & FTMS_FLAG_EXPENDED_ENERGY_PRESENT) {
-      offset += 5;
-    }
+    const flags = data.readUInt16LE(0);
+    const telemetry = parseIndoorBikeData(data, flags);
+    const now = Date.now();
+    const pending =
+      this.pendingBikeData && now - this.pendingBikeData.at <= MORE_DATA_MAX_AGE_MS ? this.pendingBikeData.telemetry : {};
 
-    if (flags & FTMS_FLAG_HEART_RATE_PRESENT && offset < data.length) {
-      telemetry.heartRateBpm = data.readUInt8(offset);
-      offset += 1;
+    if (flags & FTMS_FLAG_MORE_DATA) {
+      this.pendingBikeData = { telemetry: { ...pending, ...telemetry }, at: now };
+      return;
     }
 
-    if (flags & FTMS_FLAG_MET_EQUIPMENT_PRESENT) {
-      offset += 1;
+    this.pendingBikeData = undefined;
+    if (this.connectedDeviceId) {
+      this.devices.report(this.connectedDeviceId, { ...pending, ...telemetry });
     }
+  }
 
-    if (flags & FTMS_FLAG_ELAPSED_TIME_PRESENT) {
-      offset += 2;
-    }
+  private isPowerMatchApplicable(): boolean {
+    return (
+      this.trainerMode === 'erg' &&
+      this.isRunning &&
+      this.devices.isKindConnected('powerMeter') &&
+      Boolean(this.peripheral) &&
+      !this.trainerReconnect
+    );
+  }
 
-    if (flags & FTMS_FLAG_REMAINING_TIME_PRESENT) {
-      offset += 2;
+  private tickPowerMatch(): void {
+    if (this.isPowerMatchApplicable() && this.powerMatcher.update(this.currentTargetWatts)) {
+      this.writeTargetPower(this.currentTargetWatts).catch((error: Error) => {
+        this.emitStatus({ message: `Power match correction failed: ${error.message}` });
+      });
     }
-
-    this.emit('telemetry', telemetry);
+    this.emitPowerMatch();
   }
 
-  private handleHeartRateNotification(data: Buffer): void {
-    if (!data.length) {
+  private emitPowerMatch(force = false): void {
+    const state = this.getPowerMatchState();
+    const key = `${state.enabled}:${state.active}:${state.offsetWatts}:${state.meterWatts}:${state.targetWatts}`;
+    if (!force && key === this.lastPowerMatchKey) {
       return;
     }
-    const flags = data.readUInt8(0);
-    let offset = 1;
-
-    let heartRate: number | undefined;
-    if (flags & 0x01) {
-      if (data.length >= offset + 2) {
-        heartRate = data.readUInt16LE(offset);
-        offset += 2;
-      }
-    } else if (data.length >= offset + 1) {
-      heartRate = data.readUInt8(offset);
-      offset += 1;
-    }
+    this.lastPowerMatchKey = key;
+    this.emit('power-match', state);
+  }
 
-    if (typeof heartRate === 'number' && Number.isFinite(heartRate)) {
-      this.emit('telemetry', { heartRateBpm: heartRate });
-    }
+  /**
+   * Writes the target, corrected by power match when it applies.
+   */
+  private async writeTargetPower(targetWatts: number): Promise<void> {
+    const offset = this.powerMatcher.settings.enabled && this.devices.isKindConnected('powerMeter') ? this.powerMatcher.offsetWatts : 0;
+    const commanded = Math.round(TrainerController.clampToRange(targetWatts + offset, this.capabilities.powerRange));
+    const payload = Buffer.alloc(3);
+    payload.writeUInt8(FTMS_SET_TARGET_POWER, 0);
+    payload.writeInt16LE(commanded, 1);
+    await this.writeControlPoint(payload);
+    this.lastCommandedWatts = commanded;
   }
 
   private handleControlPointNotification(data: Buffer): void {
     if (data.length < 3) {
       return;
     }
+    if (this.controlPoint?.handleResponse(data)) {
+      return;
+    }
     const responseCode = data.readUInt8(0);
     if (responseCode !== 0x80) {
       return;
@@ -723,7 +1279,7 @@ export class TrainerController extends EventEmitter {
 
     let message: string | undefined;
     if (result !== 0x01) {
-      message = `Control point response for opcode 0x${requestOpcode.toString(16)} returned status 0x${result.toString(16)}`;
+      message = `Unsolicited control point response for opcode 0x${requestOpcode.toString(16)} returned status 0x${result.toString(16)}`;
     }
 
     if (message) {
@@ -732,112 +1288,239 @@ export class TrainerController extends EventEmitter {
   }
 
   private handleStatusNotification(data: Buffer): void {
-    if (!data.length) {
+    const status = parseFitnessMachineStatus(data);
+    if (!status) {
       return;
     }
-    const statusOpCode = data.readUInt8(0);
-    if (statusOpCode === 0x14) {
-      this.emitStatus({ message: 'Trainer acknowledged simulation parameter change', connected: true, controlling: this.isControlling, running: this.isRunning });
-    }
+    this.emit('machine-status', status);
+    this.applyMachineStatus(status);
   }
 
-  private async writeControlPoint(buffer: Buffer): Promise<void> {
-    if (!this.controlPointCharacteristic) {
-      throw new Error('Control point not ready');
-    }
-    await new Promise<void>((resolve, reject) => {
-      this.controlPointCharacteristic!.write(buffer, false, (error) => {
-        if (error) {
-          reject(error);
+  /**
+   * Keeps local state in line with changes made on the trainer itself or by
+   * another client. Target changes we caused ourselves echo back with the
+   * values we already hold.
+   */
+  private applyMachineStatus(status: MachineStatusEvent): void {
+    switch (status.type) {
+      case 'reset':
+      case 'controlPermissionLost':
+        this.isControlling = false;
+        this.emitStatus({ message: status.description, controlling: false });
+        this.scheduleControlReacquire();
+        break;
+      case 'stoppedByUser':
+        if (status.paused) {
+          this.applyRemotePause(status.description);
         } else {
-          resolve();
+          this.applyRemoteStop(status.description);
         }
-      });
-    });
+        break;
+      case 'stoppedBySafetyKey':
+        this.applyRemoteStop(status.description);
+        break;
+      case 'startedByUser':
+        this.applyRemoteResume(status.description);
+        break;
+      case 'targetPowerChanged':
+        if (status.watts !== (this.lastCommandedWatts ?? this.currentTargetWatts) || this.trainerMode !== 'erg') {
+          this.currentTargetWatts = status.watts;
+          this.lastCommandedWatts = status.watts;
+          this.setTrainerMode('erg');
+          this.emit('target-watts', status.watts);
+        }
+        break;
+      case 'targetResistanceChanged':
+        if (status.level !== this.currentResistanceLevel || this.trainerMode !== 'resistance') {
+          this.currentResistanceLevel = status.level;
+          this.setTrainerMode('resistance');
+          this.emit('target-resistance', status.level);
+        }
+        break;
+      case 'simulationParametersChanged':
+        if (status.parameters.gradePercent !== this.currentSimulation.gradePercent || this.trainerMode !== 'slope') {
+          this.currentSimulation = status.parameters;
+          this.setTrainerMode('slope');
+          this.emit('target-slope', status.parameters.gradePercent);
+        }
+        break;
+      case 'spinDownStatus':
+        this.applySpinDownStatus(status.status);
+        break;
+      default:
+        break;
+    }
   }
 
-  private resolveDeviceKind(deviceId?: string, explicitKind?: 'trainer' | 'heart-rate'): 'trainer' | 'heart-rate' {
-    if (explicitKind) {
-      return explicitKind;
+  private applySpinDownStatus(status: SpinDownStatus): void {
+    if (!this.calibration) {
+      return;
     }
-    if (deviceId) {
-      if (deviceId === this.connectedHeartRateId) {
-        return 'heart-rate';
-      }
-      const known = this.discoveredDevices.get(deviceId);
-      if (known?.kind === 'heart-rate') {
-        return 'heart-rate';
-      }
-      if (known?.kind === 'trainer') {
-        return 'trainer';
-      }
+    switch (status) {
+      case 'requested':
+        this.updateCalibration({ step: 'speedUp' });
+        break;
+      case 'stopPedaling':
+        this.updateCalibration({ step: 'stopPedaling' });
+        break;
+      case 'success':
+        this.finishCalibration('success', 'Spin down succeeded');
+        break;
+      case 'error':
+        this.finishCalibration('failure', 'Trainer reported a failed spin down');
+        break;
+      default:
+        break;
     }
-    return 'trainer';
   }
 
-  private getPeripheralId(peripheral: Peripheral): string {
-    return peripheral.id ?? peripheral.uuid;
+  private updateCalibration(changes: Partial<DeviceCalibrationState>): void {
+    if (!this.calibration) {
+      return;
+    }
+    this.calibration = { ...this.calibration, ...changes };
+    this.emit('calibration', { ...this.calibration });
   }
 
-  private handleDiscover(peripheral: Peripheral): void {
-    const id = this.getPeripheralId(peripheral);
-    this.discoveredPeripherals.set(id, peripheral);
-
-    const serviceUuids = (peripheral.advertisement?.serviceUuids || []).map((uuid) => uuid.toLowerCase());
-    let kind: DiscoveredDevice['kind'] = 'unknown';
-    if (serviceUuids.includes(FTMS_SERVICE_UUID)) {
-      kind = 'trainer';
-    } else if (serviceUuids.includes(HEART_RATE_SERVICE_UUID)) {
-      kind = 'heart-rate';
+  private finishCalibration(result: 'success' | 'failure', message: string): void {
+    if (!this.calibration) {
+      return;
     }
+    if (this.calibrationTimer) {
+      clearTimeout(this.calibrationTimer);
+      this.calibrationTimer = undefined;
+    }
+    const finished: DeviceCalibrationState = {
+      ...this.calibration,
+      inProgress: false,
+      step: undefined,
+      completedAt: new Date().toISOString(),
+      result,
+      message,
+    };
+    this.calibration = undefined;
+    this.emit('calibration', finished);
+  }
 
-    const label = TrainerController.buildDeviceLabel(peripheral);
-    const name = (peripheral.advertisement?.localName || '').trim() || undefined;
-    const identifier = TrainerController.formatIdentifier(peripheral.uuid || peripheral.id);
+  private applyRemotePause(message: string): void {
+    if (!this.isRunning) {
+      return;
+    }
+    this.isRunning = false;
+    this.isPaused = true;
+    if (this.sessionTimerStartedAt && typeof this.sessionTimerRemainingMs === 'number') {
+      const elapsed = Date.now() - this.sessionTimerStartedAt;
+      this.sessionTimerRemainingMs = Math.max(0, this.sessionTimerRemainingMs - elapsed);
+    }
+    this.clearSessionTimer();
+    this.emitSession({ type: 'paused' });
+    this.emitStatus({ message, running: false, paused: true });
+  }
 
-    const device: DiscoveredDevice = {
-      id,
-      label,
-      name,
-      identifier,
-      services: serviceUuids,
-      rssi: typeof peripheral.rssi === 'number' ? peripheral.rssi : undefined,
-      kind,
-      connectable: peripheral.connectable ?? true,
-      connected: id === this.connectedDeviceId || id === this.connectedHeartRateId,
-      lastSeen: Date.now(),
-    };
+  private applyRemoteResume(message: string): void {
+    if (!this.isPaused) {
+      return;
+    }
+    this.isRunning = true;
+    this.isPaused = false;
+    this.scheduleSessionTimer();
+    this.emitSession({ type: 'resumed' });
+    this.emitStatus({ message, running: true, paused: false });
+  }
 
-    this.discoveredDevices.set(id, device);
-    this.emitDevices();
+  private applyRemoteStop(message: string): void {
+    if (!this.isRunning && !this.isPaused) {
+      return;
+    }
+    this.isRunning = false;
+    this.isPaused = false;
+    this.sessionTimerRemainingMs = undefined;
+    this.clearSessionTimer();
+    this.emitSession({ type: 'ended', state: 'completed' });
+    this.emitStatus({ message, running: false, paused: false });
   }
 
-  private emitDevices(): void {
-    const now = Date.now();
-    for (const [id, device] of [...this.discoveredDevices.entries()]) {
-      if (id !== this.connectedDeviceId && id !== this.connectedHeartRateId && now - device.lastSeen > DEVICE_STALE_MS) {
-        this.discoveredDevices.delete(id);
+  /**
+   * Takes control back while a session is running so the rider keeps their
+   * target. Outside a session, control is requested again by the next
+   * command. The cooldown stops two apps from fighting over the trainer.
+   */
+  private scheduleControlReacquire(): void {
+    if (!this.isRunning || Date.now() - this.lastControlReacquireAt < CONTROL_REACQUIRE_COOLDOWN_MS) {
+      return;
+    }
+    this.lastControlReacquireAt = Date.now();
+    void (async () => {
+      try {
+        await this.requestControl();
+        await this.reapplyTarget();
+        await this.startOrResume();
+        this.emitStatus({ message: 'Trainer control re-acquired' });
+      } catch (error) {
+        this.emitStatus({ message: `Could not re-acquire trainer control: ${(error as Error).message}` });
       }
+    })();
+  }
+
+  private async reapplyTarget(): Promise<void> {
+    switch (this.trainerMode) {
+      case 'slope':
+        await this.setSlope(this.currentSimulation);
+        break;
+      case 'resistance':
+        await this.setResistanceLevel(this.currentResistanceLevel);
+        break;
+      default:
+        await this.setTargetWatts(this.currentTargetWatts);
+        break;
     }
+  }
 
-    const devices = Array.from(this.discoveredDevices.values())
-      .map((device) => ({
-        ...device,
-        connected: device.id === this.connectedDeviceId || device.id === this.connectedHeartRateId,
-      }))
-      .sort((a, b) => {
-        if (a.connected !== b.connected) return a.connected ? -1 : 1;
-        if (a.kind !== b.kind) {
-          if (a.kind === 'trainer') return -1;
-          if (b.kind === 'trainer') return 1;
-          if (a.kind === 'heart-rate') return -1;
-          if (b.kind === 'heart-rate') return 1;
+  /**
+   * Sends a control point command and waits for the trainer's response. When
+   * control was taken by another client, control is requested once more and
+   * the command retried.
+   */
+  private async writeControlPoint(buffer: Buffer, options?: ControlPointRequestOptions): Promise<Buffer> {
+    const controlPoint = this.controlPoint;
+    if (!controlPoint) {
+      throw new Error('Control point not ready');
+    }
+    const opcode = buffer.readUInt8(0);
+    try {
+      try {
+        return await controlPoint.send(buffer, options);
+      } catch (error) {
+        const controlLost = error instanceof ControlPointError && error.reason === 'controlNotPermitted';
+        if (!controlLost || opcode === FTMS_REQUEST_CONTROL) {
+          throw error;
         }
-        if (a.label !== b.label) return a.label.localeCompare(b.label);
-        return 0;
-      });
+        this.isControlling = false;
+        await this.requestControl();
+        return await controlPoint.send(buffer, options);
+      }
+    } catch (error) {
+      if (error instanceof ControlPointError) {
+        this.reportControlError(error);
+      }
+      throw error;
+    }
+  }
 
-    this.emit('devices', devices);
+  private reportControlError(error: ControlPointError): void {
+    if (error === this.lastReportedControlError || error.reason === 'disconnected') {
+      return;
+    }
+    this.lastReportedControlError = error;
+    if (error.reason === 'controlNotPermitted') {
+      this.isControlling = false;
+      this.emitStatus({ controlling: false });
+    }
+    this.emit('control-error', error.toFailure());
+  }
+
+  private resolveDeviceKind(deviceId?: string, explicitKind?: DeviceKind): DeviceKind {
+    return explicitKind ?? (deviceId ? this.devices.kindOf(deviceId) : undefined) ?? 'trainer';
   }
 
   private clearSessionTimer(): void {
@@ -859,19 +1542,43 @@ export class TrainerController extends EventEmitter {
       this.sessionTimer = undefined;
       this.sessionTimerRemainingMs = undefined;
       this.sessionTimerStartedAt = undefined;
-      void this.stopSession();
+      this.stopSession().catch((error: Error) => {
+        this.emitStatus({ message: `Trainer did not acknowledge the stop: ${error.message}` });
+      });
     }, this.sessionTimerRemainingMs);
   }
 
+  private setTrainerMode(mode: TrainerMode): void {
+    if (this.trainerMode === mode) {
+      return;
+    }
+    this.trainerMode = mode;
+    this.emit('trainer-mode', mode);
+  }
+
+  private describeMode(): string {
+    return MODE_LABELS[this.trainerMode];
+  }
+
+  private emitSession(event: SessionLifecycleEvent): void {
+    this.emit('session', event);
+  }
+
   private emitStatus(partial: Partial<StatusPayload>): void {
     const payload: StatusPayload = {
       connected: Boolean(this.peripheral),
       controlling: this.isControlling,
       running: this.isRunning,
-      scanning: this.discovering,
+      scanning: this.devices.scanning,
       message: partial.message,
       paused: this.isPaused,
+      reconnecting: Boolean(this.trainerReconnect),
+      powerSource: this.powerSource,
+      powerMeterConnected: this.devices.isKindConnected('powerMeter'),
+      cadenceSensorConnected: this.devices.isKindConnected('cadenceSensor'),
+      wheelCircumferenceMm: this.devices.wheelCircumferenceMm,
       deviceId: this.connectedDeviceId,
+      capabilities: this.peripheral ? this.getCapabilities() : undefined,
     };
 
     if (typeof partial.connected === 'boolean') {
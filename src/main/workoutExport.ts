@@ -0,0 +1,236 @@
+import { CreateWorkoutInput, WorkoutBlockDraft, WorkoutCue, WorkoutFileFormat } from '../types/domain';
+
+const ZWO_AUTHOR = 'Open Trainer';
+// How long ERG/MRC players keep a course text on screen, in seconds.
+const ERG_TEXT_SECONDS = 10;
+
+interface PowerTarget {
+  start: number;
+  end: number;
+}
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const trimNumber = (value: number, decimals: number): string => Number(value.toFixed(decimals)).toString();
+
+const describeBlock = (index: number, block: WorkoutBlockDraft): string => `Block ${index + 1} (${block.type})`;
+
+/**
+ * Power of a block as % FTP. Watt targets need the FTP to be converted.
+ */
+const percentTarget = (block: WorkoutBlockDraft, where: string, ftpWatts?: number): PowerTarget => {
+  if (typeof block.targetPowerPercentFtp === 'number') {
+    return { start: block.targetPowerPercentFtp, end: block.targetPowerEndPercentFtp ?? block.targetPowerPercentFtp };
+  }
+  if (typeof block.targetPowerWatts !== 'number') {
+    throw new Error(`${where} has no power target`);
+  }
+  if (!ftpWatts) {
+    throw new Error(`${where} is in watts: set your FTP in the rider profile to export it relative to FTP`);
+  }
+  const end = block.targetPowerEndWatts ?? block.targetPowerWatts;
+  return { start: (block.targetPowerWatts / ftpWatts) * 100, end: (end / ftpWatts) * 100 };
+};
+
+const wattsTarget = (block: WorkoutBlockDraft, where: string, ftpWatts?: number): PowerTarget => {
+  if (typeof block.targetPowerWatts === 'number') {
+    return { start: block.targetPowerWatts, end: block.targetPowerEndWatts ?? block.targetPowerWatts };
+  }
+  if (typeof block.targetPowerPercentFtp !== 'number') {
+    throw new Error(`${where} has no power target`);
+  }
+  if (!ftpWatts) {
+    throw new Error(`${where} is in % FTP: set your FTP in the rider profile to export it in watts`);
+  }
+  const end = block.targetPowerEndPercentFtp ?? block.targetPowerPercentFtp;
+  return { start: (block.targetPowerPercentFtp * ftpWatts) / 100, end: (end * ftpWatts) / 100 };
+};
+
+const rejectUnsupported = (block: WorkoutBlockDraft, where: string, format: WorkoutFileFormat): void => {
+  if (typeof block.targetSlopePercent === 'number' && block.type !== 'freeRide') {
+    throw new Error(`${where}: slope blocks cannot be exported to .${format}`);
+  }
+};
+
+/**
+ * Flattens repeat sets into the blocks actually ridden, moving set cues onto
+ * the step they fall in.
+ */
+const flattenBlocks = (blocks: WorkoutBlockDraft[]): { block: WorkoutBlockDraft; where: string; cues: WorkoutCue[] }[] =>
+  blocks.flatMap((block, index) => {
+    const where = describeBlock(index, block);
+    if (block.type !== 'repeat') {
+      return [{ block, where, cues: block.cues ?? [] }];
+    }
+    const steps: { block: WorkoutBlockDraft; where: string; cues: WorkoutCue[] }[] = [];
+    let startSeconds = 0;
+    for (let rep = 0; rep < (block.repeatCount ?? 1); rep += 1) {
+      (block.blocks ?? []).forEach((child) => {
+        const endSeconds = startSeconds + child.durationSeconds;
+        const setCues = (block.cues ?? [])
+          .filter((cue) => cue.offsetSeconds >= startSeconds && cue.offsetSeconds < endSeconds)
+          .map((cue) => ({ ...cue, offsetSeconds: cue.offsetSeconds - startSeconds }));
+        steps.push({ block: child, where, cues: [...(child.cues ?? []), ...setCues] });
+        startSeconds = endSeconds;
+      });
+    }
+    return steps;
+  });
+
+const zwoElement = (name: string, attributes: Record<string, string | number>, cues: WorkoutCue[], indent: string): string => {
+  const attributeText = Object.entries(attributes)
+    .map(([key, value]) => ` ${key}="${value}"`)
+    .join('');
+  if (!cues.length) {
+    return `${indent}<${name}${attributeText}/>`;
+  }
+  const events = [...cues]
+    .sort((a, b) => a.offsetSeconds - b.offsetSeconds)
+    .map((cue) => `${indent}    <textevent timeoffset="${Math.round(cue.offsetSeconds)}" message="${escapeXml(cue.message)}"/>`);
+  return [`${indent}<${name}${attributeText}>`, ...events, `${indent}</${name}>`].join('\n');
+};
+
+// ZWO powers are fractions of FTP.
+const zwoPower = (percent: number): string => trimNumber(percent / 100, 3);
+
+const zwoSegment = (
+  block: WorkoutBlockDraft,
+  where: string,
+  cues: WorkoutCue[],
+  position: { first: boolean; last: boolean },
+  ftpWatts?: number,
+): string => {
+  const indent = '        ';
+  const duration = Math.round(block.durationSeconds);
+  if (block.type === 'freeRide') {
+    return zwoElement('FreeRide', { Duration: duration }, cues, indent);
+  }
+  rejectUnsupported(block, where, 'zwo');
+  const power = percentTarget(block, where, ftpWatts);
+  if (block.type !== 'ramp') {
+    return zwoElement('SteadyState', { Duration: duration, Power: zwoPower(power.start) }, cues, indent);
+  }
+  const name = position.first && power.end > power.start ? 'Warmup' : position.last && power.end < power.start ? 'Cooldown' : 'Ramp';
+  return zwoElement(name, { Duration: duration, PowerLow: zwoPower(power.start), PowerHigh: zwoPower(power.end) }, cues, indent);
+};
+
+// Two steady steps repeated are what Zwift calls IntervalsT.
+const isOnOffSet = (block: WorkoutBlockDraft): boolean =>
+  block.type === 'repeat' &&
+  block.blocks?.length === 2 &&
+  block.blocks.every((child) => child.type === 'target' && typeof child.targetSlopePercent !== 'number');
+
+const zwoIntervals = (block: WorkoutBlockDraft, where: string, ftpWatts?: number): string => {
+  const [on, off] = block.blocks ?? [];
+  const repeatCount = block.repeatCount ?? 1;
+  const setSeconds = on.durationSeconds + off.durationSeconds;
+  // Child cues play on every repeat; ZWO only knows offsets into the whole set.
+  const cues = [...(block.cues ?? [])];
+  for (let rep = 0; rep < repeatCount; rep += 1) {
+    (on.cues ?? []).forEach((cue) => cues.push({ ...cue, offsetSeconds: rep * setSeconds + cue.offsetSeconds }));
+    (off.cues ?? []).forEach((cue) =>
+      cues.push({ ...cue, offsetSeconds: rep * setSeconds + on.durationSeconds + cue.offsetSeconds }),
+    );
+  }
+  return zwoElement(
+    'IntervalsT',
+    {
+      Repeat: repeatCount,
+      OnDuration: Math.round(on.durationSeconds),
+      OffDuration: Math.round(off.durationSeconds),
+      OnPower: zwoPower(percentTarget(on, where, ftpWatts).start),
+      OffPower: zwoPower(percentTarget(off, where, ftpWatts).start),
+    },
+    cues,
+    '        ',
+  );
+};
+
+const exportZwo = (workout: CreateWorkoutInput, ftpWatts?: number): string => {
+  const segments: string[] = [];
+  workout.blocks.forEach((block, index) => {
+    const where = describeBlock(index, block);
+    if (isOnOffSet(block)) {
+      segments.push(zwoIntervals(block, where, ftpWatts));
+      return;
+    }
+    const steps = block.type === 'repeat' ? flattenBlocks([block]) : [{ block, where, cues: block.cues ?? [] }];
+    steps.forEach((step, stepIndex) => {
+      const position = {
+        first: index === 0 && stepIndex === 0,
+        last: index === workout.blocks.length - 1 && stepIndex === steps.length - 1,
+      };
+      segments.push(zwoSegment(step.block, where, step.cues, position, ftpWatts));
+    });
+  });
+
+  const tags = workout.tags?.length
+    ? ['    <tags>', ...workout.tags.map((tag) => `        <tag name="${escapeXml(tag)}"/>`), '    </tags>']
+    : [];
+  return [
+    '<workout_file>',
+    `    <author>${ZWO_AUTHOR}</author>`,
+    `    <name>${escapeXml(workout.label)}</name>`,
+    `    <description>${escapeXml(workout.description ?? '')}</description>`,
+    '    <sportType>bike</sportType>',
+    ...tags,
+    '    <workout>',
+    ...segments,
+    '    </workout>',
+    '</workout_file>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * ERG and MRC list the target at the start and end of every block, so ramps
+ * come out as sloped lines and steady blocks as flat ones.
+ */
+const exportErgOrMrc = (workout: CreateWorkoutInput, format: 'erg' | 'mrc', ftpWatts?: number): string => {
+  const percent = format === 'mrc';
+  const points: string[] = [];
+  const texts: string[] = [];
+  let elapsedSeconds = 0;
+
+  flattenBlocks(workout.blocks).forEach(({ block, where, cues }) => {
+    if (block.type === 'freeRide') {
+      throw new Error(`${where}: free ride blocks cannot be exported to .${format}`);
+    }
+    rejectUnsupported(block, where, format);
+    const target = percent ? percentTarget(block, where, ftpWatts) : wattsTarget(block, where, ftpWatts);
+    const value = (amount: number) => (percent ? trimNumber(amount, 1) : Math.round(amount).toString());
+    points.push(`${trimNumber(elapsedSeconds / 60, 4)}\t${value(target.start)}`);
+    cues.forEach((cue) => {
+      texts.push(`${Math.round(elapsedSeconds + cue.offsetSeconds)}\t${cue.message.replace(/\s+/g, ' ')}\t${ERG_TEXT_SECONDS}`);
+    });
+    elapsedSeconds += block.durationSeconds;
+    points.push(`${trimNumber(elapsedSeconds / 60, 4)}\t${value(target.end)}`);
+  });
+
+  const header = [
+    '[COURSE HEADER]',
+    'VERSION = 2',
+    'UNITS = ENGLISH',
+    `DESCRIPTION = ${(workout.description ?? '').replace(/\s+/g, ' ')}`,
+    `FILE NAME = ${workout.label}`,
+    ...(ftpWatts ? [`FTP = ${ftpWatts}`] : []),
+    percent ? 'MINUTES PERCENT' : 'MINUTES WATTS',
+    '[END COURSE HEADER]',
+  ];
+  const text = texts.length ? ['[COURSE TEXT]', ...texts, '[END COURSE TEXT]'] : [];
+  return [...header, '[COURSE DATA]', ...points, '[END COURSE DATA]', ...text, ''].join('\n');
+};
+
+/**
+ * Writes a workout in another app's format. `ftpWatts` converts between
+ * watts and % FTP where the format needs the other unit.
+ */
+export const exportWorkout = (workout: CreateWorkoutInput, format: WorkoutFileFormat, ftpWatts?: number): string => {
+  if (!workout.blocks.length) {
+    throw new Error('Workout has no blocks');
+  }
+  return format === 'zwo' ? exportZwo(workout, ftpWatts) : exportErgOrMrc(workout, format, ftpWatts);
+};
+
+export default exportWorkout;
@@ -0,0 +1,454 @@
+import path from 'path';
+import { CreateWorkoutInput, WorkoutBlockDraft, WorkoutBlockType, WorkoutCue } from '../types/domain';
+
+export const WORKOUT_FILE_EXTENSIONS = ['zwo', 'erg', 'mrc', 'json'];
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+  line: number;
+}
+
+const XML_TOKEN =
+  /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<\/\s*([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const XML_ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const lineAt = (source: string, index: number): number => source.slice(0, index).split('\n').length;
+
+/**
+ * Just enough XML for workout files: elements, attributes, text and CDATA.
+ * Namespaces, DTDs and processing instructions are skipped.
+ */
+const parseXml = (source: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '', line: 1 };
+  const stack: XmlElement[] = [root];
+  let cursor = 0;
+
+  const appendText = (text: string) => {
+    stack[stack.length - 1].text += text;
+  };
+
+  XML_TOKEN.lastIndex = 0;
+  for (let match = XML_TOKEN.exec(source); match; match = XML_TOKEN.exec(source)) {
+    const between = source.slice(cursor, match.index);
+    if (between.includes('<')) {
+      throw new Error(`Malformed XML near line ${lineAt(source, cursor + between.indexOf('<'))}`);
+    }
+    appendText(decodeEntities(between));
+    cursor = match.index + match[0].length;
+
+    const [, cdata, closing, opening, rawAttributes, selfClosing] = match;
+    if (cdata !== undefined) {
+      appendText(cdata);
+    } else if (closing) {
+      const current = stack.pop();
+      if (!current || current === root || current.name !== closing) {
+        throw new Error(`Unexpected </${closing}> on line ${lineAt(source, match.index)}`);
+      }
+    } else if (opening) {
+      const attributes: Record<string, string> = {};
+      XML_ATTRIBUTE.lastIndex = 0;
+      for (let attribute = XML_ATTRIBUTE.exec(rawAttributes); attribute; attribute = XML_ATTRIBUTE.exec(rawAttributes)) {
+        attributes[attribute[1].toLowerCase()] = decodeEntities(attribute[2] ?? attribute[3] ?? '');
+      }
+      const element: XmlElement = { name: opening, attributes, children: [], text: '', line: lineAt(source, match.index) };
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+
+  const rest = source.slice(cursor);
+  if (rest.includes('<')) {
+    throw new Error(`Malformed XML near line ${lineAt(source, cursor + rest.indexOf('<'))}`);
+  }
+  if (stack.length > 1) {
+    throw new Error(`Missing </${stack[stack.length - 1].name}> in XML`);
+  }
+  return root;
+};
+
+const findChild = (element: XmlElement, name: string): XmlElement | undefined =>
+  element.children.find((child) => child.name.toLowerCase() === name.toLowerCase());
+
+const readNumber = (element: XmlElement, ...names: string[]): number | undefined => {
+  for (const name of names) {
+    const raw = element.attributes[name.toLowerCase()];
+    if (raw !== undefined && raw.trim() !== '') {
+      const value = Number(raw);
+      if (!Number.isFinite(value)) {
+        throw new Error(`<${element.name}> on line ${element.line} has an invalid ${name} "${raw}"`);
+      }
+      return value;
+    }
+  }
+  return undefined;
+};
+
+const requireNumber = (element: XmlElement, ...names: string[]): number => {
+  const value = readNumber(element, ...names);
+  if (value === undefined) {
+    throw new Error(`<${element.name}> on line ${element.line} is missing ${names[0]}`);
+  }
+  return value;
+};
+
+// ZWO powers are fractions of FTP.
+const toPercent = (fraction: number): number => Math.round(fraction * 1000) / 10;
+
+const readCues = (element: XmlElement): WorkoutCue[] | undefined => {
+  const cues = element.children
+    .filter((child) => child.name.toLowerCase() === 'textevent')
+    .map((child) => ({
+      offsetSeconds: readNumber(child, 'timeoffset') ?? 0,
+      message: (child.attributes.message ?? child.text).trim(),
+    }))
+    .filter((cue) => cue.message);
+  return cues.length ? cues : undefined;
+};
+
+const rampBlock = (durationSeconds: number, from: number, to: number): WorkoutBlockDraft => ({
+  type: 'ramp',
+  durationSeconds,
+  targetPowerPercentFtp: toPercent(from),
+  targetPowerEndPercentFtp: toPercent(to),
+});
+
+const parseZwoSegment = (element: XmlElement): WorkoutBlockDraft => {
+  const name = element.name.toLowerCase();
+  const cues = readCues(element);
+  const withCues = (block: WorkoutBlockDraft): WorkoutBlockDraft => (cues ? { ...block, cues } : block);
+
+  switch (name) {
+    case 'steadystate':
+      return withCues({
+        type: 'target',
+        durationSeconds: requireNumber(element, 'Duration'),
+        targetPowerPercentFtp: toPercent(requireNumber(element, 'Power', 'PowerLow')),
+      });
+    case 'warmup':
+    case 'ramp':
+      return withCues(
+        rampBlock(requireNumber(element, 'Duration'), requireNumber(element, 'PowerLow'), requireNumber(element, 'PowerHigh')),
+      );
+    case 'cooldown': {
+      // Files disagree on which bound comes first; a cool-down always goes down.
+      const low = requireNumber(element, 'PowerLow');
+      const high = requireNumber(element, 'PowerHigh');
+      return withCues(rampBlock(requireNumber(element, 'Duration'), Math.max(low, high), Math.min(low, high)));
+    }
+    case 'intervalst': {
+      const repeatCount = Math.round(requireNumber(element, 'Repeat'));
+      const onSeconds = requireNumber(element, 'OnDuration');
+      const offSeconds = readNumber(element, 'OffDuration') ?? 0;
+      if (repeatCount < 1) {
+        throw new Error(`<${element.name}> on line ${element.line} must repeat at least once`);
+      }
+      const blocks: WorkoutBlockDraft[] = [
+        { type: 'target', durationSeconds: onSeconds, targetPowerPercentFtp: toPercent(requireNumber(element, 'OnPower')) },
+      ];
+      if (offSeconds > 0) {
+        blocks.push({
+          type: 'target',
+          durationSeconds: offSeconds,
+          targetPowerPercentFtp: toPercent(requireNumber(element, 'OffPower')),
+        });
+      }
+      return withCues({ type: 'repeat', repeatCount, durationSeconds: repeatCount * (onSeconds + offSeconds), blocks });
+    }
+    case 'freeride':
+      return withCues({ type: 'freeRide', durationSeconds: requireNumber(element, 'Duration') });
+    case 'maxeffort':
+      return withCues({ type: 'freeRide', durationSeconds: requireNumber(element, 'Duration'), notes: 'Max effort' });
+    default:
+      throw new Error(`Unsupported ZWO element <${element.name}> on line ${element.line}`);
+  }
+};
+
+const parseZwo = (contents: string, fallbackLabel: string): CreateWorkoutInput => {
+  const root = findChild(parseXml(contents), 'workout_file');
+  if (!root) {
+    throw new Error('Not a ZWO file: <workout_file> is missing');
+  }
+  const workout = findChild(root, 'workout');
+  if (!workout) {
+    throw new Error('ZWO file has no <workout> section');
+  }
+  const tags = findChild(root, 'tags')
+    ?.children.map((tag) => (tag.attributes.name ?? tag.text).trim())
+    .filter(Boolean);
+  const blocks = workout.children.filter((child) => child.name.toLowerCase() !== 'textevent').map(parseZwoSegment);
+
+  // Text events directly under <workout> are timed from the start of the
+  // workout; they go on the segment they fall in, past the end onto the last.
+  let startSeconds = 0;
+  const starts = blocks.map((block) => {
+    const start = startSeconds;
+    startSeconds += block.durationSeconds;
+    return start;
+  });
+  (readCues(workout) ?? []).forEach(({ offsetSeconds: atSeconds, message }) => {
+    if (!blocks.length) {
+      return;
+    }
+    const found = blocks.findIndex((block, index) => atSeconds >= starts[index] && atSeconds < starts[index] + block.durationSeconds);
+    const index = found >= 0 ? found : blocks.length - 1;
+    const block = blocks[index];
+    const offsetSeconds = Math.max(0, Math.min(atSeconds - starts[index], block.durationSeconds));
+    blocks[index] = { ...block, cues: [...(block.cues ?? []), { offsetSeconds, message }] };
+  });
+
+  return {
+    label: findChild(root, 'name')?.text.trim() || fallbackLabel,
+    description: findChild(root, 'description')?.text.trim() || undefined,
+    tags: tags?.length ? tags : undefined,
+    blocks,
+  };
+};
+
+const ERG_SECTIONS = ['COURSE HEADER', 'COURSE DATA', 'COURSE TEXT'];
+
+/**
+ * ERG (watts) and MRC (% FTP) files list the target at each point in time;
+ * flat stretches become steady blocks and sloped ones ramps.
+ */
+const parseErgOrMrc = (contents: string, fallbackLabel: string, percent: boolean): CreateWorkoutInput => {
+  const header: Record<string, string> = {};
+  const points: { seconds: number; value: number }[] = [];
+  const cues: (WorkoutCue & { atSeconds: number })[] = [];
+  let section: string | undefined;
+  let columns: string | undefined;
+
+  contents.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';') || line.startsWith('#')) {
+      return;
+    }
+    const marker = /^\[(END )?([A-Z ]+)\]$/i.exec(line);
+    if (marker) {
+      const name = marker[2].toUpperCase().trim();
+      if (!ERG_SECTIONS.includes(name)) {
+        throw new Error(`Unsupported section [${name}] on line ${index + 1}`);
+      }
+      section = marker[1] ? undefined : name;
+      return;
+    }
+
+    if (section === 'COURSE HEADER') {
+      const pair = /^([^=]+)=(.*)$/.exec(line);
+      if (pair) {
+        header[pair[1].trim().toUpperCase()] = pair[2].trim();
+      } else {
+        columns = line.toUpperCase().split(/\s+/).join(' ');
+      }
+    } else if (section === 'COURSE DATA') {
+      const [minutes, value] = line.split(/\s+/).map(Number);
+      if (!Number.isFinite(minutes) || !Number.isFinite(value)) {
+        throw new Error(`Invalid course data on line ${index + 1}: "${line}"`);
+      }
+      points.push({ seconds: Math.round(minutes * 60), value });
+    } else if (section === 'COURSE TEXT') {
+      const [offset, message] = rawLine.split('\t');
+      const atSeconds = Number(offset);
+      if (Number.isFinite(atSeconds) && message?.trim()) {
+        cues.push({ atSeconds, offsetSeconds: 0, message: message.trim() });
+      }
+    }
+  });
+
+  const expectedColumns = percent ? 'MINUTES PERCENT' : 'MINUTES WATTS';
+  if (columns && columns !== expectedColumns) {
+    throw new Error(`Unsupported ${percent ? 'MRC' : 'ERG'} columns "${columns}", expected "${expectedColumns}"`);
+  }
+  if (points.length < 2) {
+    throw new Error('Workout file has no course data');
+  }
+
+  const blocks: (WorkoutBlockDraft & { startSeconds: number })[] = [];
+  for (let index = 1; index < points.length; index += 1) {
+    const from = points[index - 1];
+    const to = points[index];
+    const durationSeconds = to.seconds - from.seconds;
+    if (durationSeconds < 0) {
+      throw new Error(`Course data goes back in time at ${to.seconds / 60} minutes`);
+    }
+    if (durationSeconds === 0) {
+      continue;
+    }
+    const previous = blocks[blocks.length - 1];
+    const steady = from.value === to.value;
+    const previousValue = previous && (percent ? previous.targetPowerPercentFtp : previous.targetPowerWatts);
+    if (steady && previous?.type === 'target' && previousValue === from.value) {
+      previous.durationSeconds += durationSeconds;
+      continue;
+    }
+    const block: WorkoutBlockDraft & { startSeconds: number } = {
+      type: steady ? 'target' : 'ramp',
+      durationSeconds,
+      startSeconds: from.seconds,
+    };
+    if (percent) {
+      block.targetPowerPercentFtp = from.value;
+      if (!steady) block.targetPowerEndPercentFtp = to.value;
+    } else {
+      block.targetPowerWatts = Math.round(from.value);
+      if (!steady) block.targetPowerEndWatts = Math.round(to.value);
+    }
+    blocks.push(block);
+  }
+
+  cues.forEach(({ atSeconds, message }) => {
+    const block =
+      blocks.find((entry) => atSeconds >= entry.startSeconds && atSeconds < entry.startSeconds + entry.durationSeconds) ??
+      blocks[blocks.length - 1];
+    const offsetSeconds = Math.max(0, Math.min(atSeconds - block.startSeconds, block.durationSeconds));
+    block.cues = [...(block.cues ?? []), { offsetSeconds, message }];
+  });
+
+  return {
+    label: header['FILE NAME'] || fallbackLabel,
+    description: header.DESCRIPTION || undefined,
+    blocks: blocks.map(({ startSeconds, ...block }) => block),
+  };
+};
+
+const JSON_BLOCK_TYPES: WorkoutBlockType[] = ['target', 'ramp', 'repeat', 'freeRide'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalNumber = (block: Record<string, unknown>, key: string, where: string): number | undefined => {
+  const value = block[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${where}: ${key} must be a number`);
+  }
+  return value;
+};
+
+const parseJsonBlock = (raw: unknown, where: string, nested: boolean): WorkoutBlockDraft => {
+  if (!isObject(raw)) {
+    throw new Error(`${where} is not an object`);
+  }
+  const type = raw.type as WorkoutBlockType;
+  if (!JSON_BLOCK_TYPES.includes(type)) {
+    throw new Error(`${where}: unsupported block type "${String(raw.type)}"`);
+  }
+
+  const cues = Array.isArray(raw.cues)
+    ? raw.cues.map((cue, index) => {
+        if (!isObject(cue) || typeof cue.message !== 'string') {
+          throw new Error(`${where}, cue ${index + 1}: a cue needs a message`);
+        }
+        return { offsetSeconds: optionalNumber(cue, 'offsetSeconds', `${where}, cue ${index + 1}`) ?? 0, message: cue.message };
+      })
+    : undefined;
+  const notes = typeof raw.notes === 'string' ? raw.notes : undefined;
+
+  if (type === 'repeat') {
+    if (nested) {
+      throw new Error(`${where}: repeat blocks cannot be nested`);
+    }
+    const repeatCount = optionalNumber(raw, 'repeatCount', where);
+    if (!repeatCount || repeatCount < 1 || !Array.isArray(raw.blocks) || !raw.blocks.length) {
+      throw new Error(`${where}: a repeat block needs a repeatCount and child blocks`);
+    }
+    const blocks = raw.blocks.map((child, index) => parseJsonBlock(child, `${where}, child ${index + 1}`, true));
+    const setSeconds = blocks.reduce((acc, child) => acc + child.durationSeconds, 0);
+    return { type, repeatCount: Math.round(repeatCount), durationSeconds: Math.round(repeatCount) * setSeconds, blocks, cues, notes };
+  }
+
+  const durationSeconds = optionalNumber(raw, 'durationSeconds', where);
+  if (!durationSeconds || durationSeconds <= 0) {
+    throw new Error(`${where}: durationSeconds must be greater than zero`);
+  }
+  const block: WorkoutBlockDraft = {
+    type,
+    durationSeconds,
+    targetPowerWatts: optionalNumber(raw, 'targetPowerWatts', where),
+    targetPowerEndWatts: optionalNumber(raw, 'targetPowerEndWatts', where),
+    targetPowerPercentFtp: optionalNumber(raw, 'targetPowerPercentFtp', where),
+    targetPowerEndPercentFtp: optionalNumber(raw, 'targetPowerEndPercentFtp', where),
+    targetSlopePercent: optionalNumber(raw, 'targetSlopePercent', where),
+    cues,
+    notes,
+  };
+  const hasStart = block.targetPowerWatts !== undefined || block.targetPowerPercentFtp !== undefined;
+  if (type === 'target' && !hasStart && block.targetSlopePercent === undefined) {
+    throw new Error(`${where}: a target block needs a power or slope target`);
+  }
+  const wattsRamp = block.targetPowerWatts !== undefined && block.targetPowerEndWatts !== undefined;
+  const percentRamp = block.targetPowerPercentFtp !== undefined && block.targetPowerEndPercentFtp !== undefined;
+  if (type === 'ramp' && !wattsRamp && !percentRamp) {
+    throw new Error(`${where}: a ramp needs a start and end power in the same unit`);
+  }
+  return block;
+};
+
+const parseJson = (contents: string, fallbackLabel: string): CreateWorkoutInput => {
+  let data: unknown;
+  try {
+    data = JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${(error as Error).message}`);
+  }
+  if (!isObject(data) || !Array.isArray(data.blocks)) {
+    throw new Error('JSON workout needs a "blocks" array');
+  }
+  const label = typeof data.label === 'string' ? data.label : typeof data.name === 'string' ? data.name : fallbackLabel;
+  const tags = Array.isArray(data.tags) ? data.tags.filter((tag): tag is string => typeof tag === 'string') : undefined;
+  return {
+    label,
+    description: typeof data.description === 'string' ? data.description : undefined,
+    tags: tags?.length ? tags : undefined,
+    blocks: data.blocks.map((block, index) => parseJsonBlock(block, `Block ${index + 1}`, false)),
+  };
+};
+
+/**
+ * Parses a workout file into the shape the store creates workouts from. The
+ * format is taken from the file extension.
+ */
+export const parseWorkoutFile = (fileName: string, contents: string): CreateWorkoutInput => {
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  const fallbackLabel = path.basename(fileName, path.extname(fileName));
+  let workout: CreateWorkoutInput;
+  switch (extension) {
+    case 'zwo':
+      workout = parseZwo(contents, fallbackLabel);
+      break;
+    case 'erg':
+      workout = parseErgOrMrc(contents, fallbackLabel, false);
+      break;
+    case 'mrc':
+      workout = parseErgOrMrc(contents, fallbackLabel, true);
+      break;
+    case 'json':
+      workout = parseJson(contents, fallbackLabel);
+      break;
+    default:
+      throw new Error(`Unsupported workout file type ".${extension}"`);
+  }
+  if (!workout.blocks.length) {
+    throw new Error('Workout has no blocks');
+  }
+  return workout;
+};
+
+export default parseWorkoutFile;
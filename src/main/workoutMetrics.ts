@@ -0,0 +1,87 @@
+import { WorkoutBlockDraft } from '../types/domain';
+
+// Free rides and slope blocks have no power target; they count as easy riding.
+const UNTARGETED_PERCENT_FTP = 50;
+
+export interface WorkoutMetrics {
+  durationSeconds: number;
+  estimatedTss?: number;
+  intensityFactor?: number;
+}
+
+const round = (value: number, decimals = 0): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const getWorkoutDurationSeconds = (blocks: WorkoutBlockDraft[]): number =>
+  blocks.reduce(
+    (acc, block) =>
+      acc +
+      (block.type === 'repeat'
+        ? (block.repeatCount ?? 1) * getWorkoutDurationSeconds(block.blocks ?? [])
+        : block.durationSeconds),
+    0,
+  );
+
+/**
+ * Start and end intensity of a block as a fraction of FTP, or undefined when
+ * watt targets can't be compared without an FTP.
+ */
+const blockIntensity = (block: WorkoutBlockDraft, ftpWatts?: number): { start: number; end: number } | undefined => {
+  if (typeof block.targetPowerPercentFtp === 'number') {
+    const end = block.type === 'ramp' ? block.targetPowerEndPercentFtp : undefined;
+    return { start: block.targetPowerPercentFtp / 100, end: (end ?? block.targetPowerPercentFtp) / 100 };
+  }
+  if (typeof block.targetPowerWatts === 'number') {
+    if (!ftpWatts) {
+      return undefined;
+    }
+    const end = block.type === 'ramp' ? block.targetPowerEndWatts : undefined;
+    return { start: block.targetPowerWatts / ftpWatts, end: (end ?? block.targetPowerWatts) / ftpWatts };
+  }
+  return { start: UNTARGETED_PERCENT_FTP / 100, end: UNTARGETED_PERCENT_FTP / 100 };
+};
+
+// Integral of intensity^4 over the block; a ramp is integrated along its line.
+const fourthPowerSeconds = (blocks: WorkoutBlockDraft[], ftpWatts?: number): number | undefined => {
+  let total = 0;
+  for (const block of blocks) {
+    if (block.type === 'repeat') {
+      const set = fourthPowerSeconds(block.blocks ?? [], ftpWatts);
+      if (set === undefined) {
+        return undefined;
+      }
+      total += (block.repeatCount ?? 1) * set;
+      continue;
+    }
+    const intensity = blockIntensity(block, ftpWatts);
+    if (!intensity) {
+      return undefined;
+    }
+    const { start, end } = intensity;
+    const mean = start === end ? start ** 4 : (end ** 5 - start ** 5) / (5 * (end - start));
+    total += mean * block.durationSeconds;
+  }
+  return total;
+};
+
+/**
+ * Estimates the load of a planned workout the same way TSS is computed for a
+ * ride, taking the targets as the normalized power.
+ */
+export const computeWorkoutMetrics = (blocks: WorkoutBlockDraft[], ftpWatts?: number): WorkoutMetrics => {
+  const durationSeconds = getWorkoutDurationSeconds(blocks);
+  const fourthPower = fourthPowerSeconds(blocks, ftpWatts);
+  if (!durationSeconds || fourthPower === undefined) {
+    return { durationSeconds };
+  }
+  const intensityFactor = (fourthPower / durationSeconds) ** 0.25;
+  return {
+    durationSeconds,
+    intensityFactor: round(intensityFactor, 2),
+    estimatedTss: round((durationSeconds / 3600) * intensityFactor ** 2 * 100),
+  };
+};
+
+export default computeWorkoutMetrics;
@@ -1,5 +1,33 @@
 import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
-import { ConnectOptions, StartSessionOptions, TelemetryPayload, StatusPayload, DiscoveredDevice, DisconnectOptions } from '../main/trainerController';
+import {
+  ConnectOptions,
+  StartSessionOptions,
+  TelemetryPayload,
+  StatusPayload,
+  DisconnectOptions,
+  SimulationParameters,
+  TrainerCapabilities,
+} from '../main/trainerController';
+import { SessionBlockInput } from '../main/sessionRecorder';
+import { ControlPointFailure } from '../main/ftmsControlPoint';
+import { MachineStatusEvent } from '../main/fitnessMachineStatus';
+import { PowerMatchSettings, PowerMatchState } from '../main/powerMatch';
+import {
+  CreateWorkoutInput,
+  DeviceCalibrationState,
+  DeviceSnapshot,
+  FitExportJob,
+  PowerSource,
+  RiderProfile,
+  SessionRecord,
+  SessionSummary,
+  SessionUpsertInput,
+  TrainerMode,
+  TrainerSettings,
+  UpdateWorkoutInput,
+  Workout,
+  WorkoutFileFormat,
+} from '../types/domain';
 
 export interface ErgApi {
   connect: (options?: ConnectOptions) => Promise<string | undefined>;
@@ -10,13 +38,64 @@ export interface ErgApi {
   resume: () => Promise<void>;
   setTargetWatts: (watts: number) => Promise<void>;
   nudgeWatts: (delta: number) => Promise<number | undefined>;
+  setSlope: (parameters: SimulationParameters) => Promise<void>;
+  nudgeSlope: (delta: number) => Promise<number | undefined>;
+  setResistanceLevel: (level: number) => Promise<void>;
+  nudgeResistance: (delta: number) => Promise<number | undefined>;
+  getCapabilities: () => Promise<TrainerCapabilities>;
+  setPowerSource: (source: PowerSource) => Promise<PowerSource>;
+  setWheelCircumference: (millimeters: number) => Promise<number>;
+  setPowerMatch: (settings: Partial<PowerMatchSettings>) => Promise<PowerMatchState>;
+  getPowerMatch: () => Promise<PowerMatchState>;
+  calibrate: () => Promise<DeviceCalibrationState>;
+  cancelCalibration: () => Promise<void>;
+  onCalibration: (listener: (calibration: DeviceCalibrationState) => void) => () => void;
+  getCalibration: (deviceId: string) => Promise<DeviceCalibrationState | undefined>;
   shutdown: () => Promise<void>;
   startDiscovery: () => Promise<void>;
   stopDiscovery: () => Promise<void>;
   onTelemetry: (listener: (telemetry: TelemetryPayload) => void) => () => void;
   onStatus: (listener: (status: StatusPayload) => void) => () => void;
   onTargetWatts: (listener: (watts: number) => void) => () => void;
-  onDevices: (listener: (devices: DiscoveredDevice[]) => void) => () => void;
+  onTargetSlope: (listener: (gradePercent: number) => void) => () => void;
+  onTrainerMode: (listener: (mode: TrainerMode) => void) => () => void;
+  onTargetResistance: (listener: (level: number) => void) => () => void;
+  onControlError: (listener: (failure: ControlPointFailure) => void) => () => void;
+  onMachineStatus: (listener: (status: MachineStatusEvent) => void) => () => void;
+  onPowerMatch: (listener: (state: PowerMatchState) => void) => () => void;
+  onDevices: (listener: (devices: DeviceSnapshot[]) => void) => () => void;
+  listSavedDevices: () => Promise<DeviceSnapshot[]>;
+  saveDevice: (device: DeviceSnapshot) => Promise<DeviceSnapshot>;
+  removeSavedDevice: (deviceId: string) => Promise<void>;
+  onSavedDevices: (listener: (devices: DeviceSnapshot[]) => void) => () => void;
+  setAutoConnect: (deviceId: string, enabled: boolean) => Promise<DeviceSnapshot>;
+  forgetDevice: (deviceId: string) => Promise<void>;
+  getTrainerSettings: (deviceId: string) => Promise<TrainerSettings | undefined>;
+  saveTrainerSettings: (settings: Omit<TrainerSettings, 'lastUpdatedAt'>) => Promise<TrainerSettings>;
+  getRiderProfile: () => Promise<RiderProfile>;
+  saveRiderProfile: (profile: Omit<RiderProfile, 'updatedAt'>) => Promise<RiderProfile>;
+  listWorkouts: () => Promise<Workout[]>;
+  getWorkout: (workoutId: string) => Promise<Workout | undefined>;
+  createWorkout: (input: CreateWorkoutInput) => Promise<Workout>;
+  updateWorkout: (workoutId: string, input: UpdateWorkoutInput) => Promise<Workout>;
+  duplicateWorkout: (workoutId: string) => Promise<Workout>;
+  deleteWorkout: (workoutId: string) => Promise<void>;
+  /** Opens a file dialog; resolves undefined when the rider cancels. */
+  importWorkout: () => Promise<Workout | undefined>;
+  /** Resolves the written path, or undefined when the rider cancels. */
+  exportWorkout: (workout: CreateWorkoutInput, format: WorkoutFileFormat) => Promise<string | undefined>;
+  listSessions: () => Promise<SessionSummary[]>;
+  getSession: (sessionId: string) => Promise<SessionRecord | undefined>;
+  saveSession: (input: SessionUpsertInput) => Promise<SessionRecord>;
+  deleteSession: (sessionId: string) => Promise<void>;
+  listFitExports: () => Promise<FitExportJob[]>;
+  exportFit: (sessionId: string) => Promise<FitExportJob>;
+  openFitExport: (jobId: string) => Promise<void>;
+  revealFitExport: (jobId: string) => Promise<void>;
+  onFitExport: (listener: (job: FitExportJob) => void) => () => void;
+  markBlock: (block: SessionBlockInput) => Promise<void>;
+  getActiveSession: () => Promise<SessionSummary | undefined>;
+  onSessionRecord: (listener: (session: SessionSummary) => void) => () => void;
 }
 
 const registerChannel = <T>(channel: string, listener: (payload: T) => void): (() => void) => {
@@ -56,6 +135,54 @@ const api: ErgApi = {
     const response = await ipcRenderer.invoke('trainer/nudge', delta);
     return response?.watts as number | undefined;
   },
+  async setSlope(parameters: SimulationParameters) {
+    await ipcRenderer.invoke('trainer/setSlope', parameters);
+  },
+  async nudgeSlope(delta: number) {
+    const response = await ipcRenderer.invoke('trainer/nudgeSlope', delta);
+    return response?.gradePercent as number | undefined;
+  },
+  async setResistanceLevel(level: number) {
+    await ipcRenderer.invoke('trainer/setResistance', level);
+  },
+  async nudgeResistance(delta: number) {
+    const response = await ipcRenderer.invoke('trainer/nudgeResistance', delta);
+    return response?.level as number | undefined;
+  },
+  async getCapabilities() {
+    const response = await ipcRenderer.invoke('trainer/capabilities');
+    return response.capabilities as TrainerCapabilities;
+  },
+  async setPowerMatch(settings: Partial<PowerMatchSettings>) {
+    const response = await ipcRenderer.invoke('trainer/setPowerMatch', settings);
+    return response.powerMatch as PowerMatchState;
+  },
+  async getPowerMatch() {
+    const response = await ipcRenderer.invoke('trainer/powerMatch');
+    return response.powerMatch as PowerMatchState;
+  },
+  async calibrate() {
+    const response = await ipcRenderer.invoke('trainer/calibrate');
+    return response.calibration as DeviceCalibrationState;
+  },
+  async cancelCalibration() {
+    await ipcRenderer.invoke('trainer/cancelCalibration');
+  },
+  onCalibration(listener: (calibration: DeviceCalibrationState) => void) {
+    return registerChannel<DeviceCalibrationState>('trainer:calibration', listener);
+  },
+  async getCalibration(deviceId: string) {
+    const response = await ipcRenderer.invoke('store/getCalibration', deviceId);
+    return response?.calibration as DeviceCalibrationState | undefined;
+  },
+  async setWheelCircumference(millimeters: number) {
+    const response = await ipcRenderer.invoke('trainer/setWheelCircumference', millimeters);
+    return response.wheelCircumferenceMm as number;
+  },
+  async setPowerSource(source: PowerSource) {
+    const response = await ipcRenderer.invoke('trainer/setPowerSource', source);
+    return response.powerSource as PowerSource;
+  },
   async shutdown() {
     await ipcRenderer.invoke('trainer/shutdown');
   },
@@ -74,8 +201,136 @@ const api: ErgApi = {
   onTargetWatts(listener: (watts: number) => void) {
     return registerChannel<number>('trainer:target', listener);
   },
-  onDevices(listener: (devices: DiscoveredDevice[]) => void) {
-    return registerChannel<DiscoveredDevice[]>('trainer:devices', listener);
+  onTargetSlope(listener: (gradePercent: number) => void) {
+    return registerChannel<number>('trainer:slope', listener);
+  },
+  onTrainerMode(listener: (mode: TrainerMode) => void) {
+    return registerChannel<TrainerMode>('trainer:mode', listener);
+  },
+  onTargetResistance(listener: (level: number) => void) {
+    return registerChannel<number>('trainer:resistance', listener);
+  },
+  onControlError(listener: (failure: ControlPointFailure) => void) {
+    return registerChannel<ControlPointFailure>('trainer:control-error', listener);
+  },
+  onMachineStatus(listener: (status: MachineStatusEvent) => void) {
+    return registerChannel<MachineStatusEvent>('trainer:machine-status', listener);
+  },
+  onPowerMatch(listener: (state: PowerMatchState) => void) {
+    return registerChannel<PowerMatchState>('trainer:power-match', listener);
+  },
+  onDevices(listener: (devices: DeviceSnapshot[]) => void) {
+    return registerChannel<DeviceSnapshot[]>('trainer:devices', listener);
+  },
+  async listSavedDevices() {
+    const response = await ipcRenderer.invoke('store/listDevices');
+    return (response?.devices ?? []) as DeviceSnapshot[];
+  },
+  async saveDevice(device: DeviceSnapshot) {
+    const response = await ipcRenderer.invoke('store/saveDevice', device);
+    return response.device as DeviceSnapshot;
+  },
+  async removeSavedDevice(deviceId: string) {
+    await ipcRenderer.invoke('store/removeDevice', deviceId);
+  },
+  onSavedDevices(listener: (devices: DeviceSnapshot[]) => void) {
+    return registerChannel<DeviceSnapshot[]>('store:devices', listener);
+  },
+  async setAutoConnect(deviceId: string, enabled: boolean) {
+    const response = await ipcRenderer.invoke('trainer/setAutoConnect', deviceId, enabled);
+    return response.device as DeviceSnapshot;
+  },
+  async forgetDevice(deviceId: string) {
+    await ipcRenderer.invoke('trainer/forgetDevice', deviceId);
+  },
+  async getTrainerSettings(deviceId: string) {
+    const response = await ipcRenderer.invoke('store/getTrainerSettings', deviceId);
+    return response?.settings as TrainerSettings | undefined;
+  },
+  async saveTrainerSettings(settings: Omit<TrainerSettings, 'lastUpdatedAt'>) {
+    const response = await ipcRenderer.invoke('store/saveTrainerSettings', settings);
+    return response.settings as TrainerSettings;
+  },
+  async getRiderProfile() {
+    const response = await ipcRenderer.invoke('store/getRiderProfile');
+    return (response?.profile ?? {}) as RiderProfile;
+  },
+  async saveRiderProfile(profile: Omit<RiderProfile, 'updatedAt'>) {
+    const response = await ipcRenderer.invoke('store/saveRiderProfile', profile);
+    return response.profile as RiderProfile;
+  },
+  async listWorkouts() {
+    const response = await ipcRenderer.invoke('store/listWorkouts');
+    return (response?.workouts ?? []) as Workout[];
+  },
+  async getWorkout(workoutId: string) {
+    const response = await ipcRenderer.invoke('store/getWorkout', workoutId);
+    return response?.workout as Workout | undefined;
+  },
+  async createWorkout(input: CreateWorkoutInput) {
+    const response = await ipcRenderer.invoke('store/createWorkout', input);
+    return response.workout as Workout;
+  },
+  async updateWorkout(workoutId: string, input: UpdateWorkoutInput) {
+    const response = await ipcRenderer.invoke('store/updateWorkout', workoutId, input);
+    return response.workout as Workout;
+  },
+  async duplicateWorkout(workoutId: string) {
+    const response = await ipcRenderer.invoke('store/duplicateWorkout', workoutId);
+    return response.workout as Workout;
+  },
+  async deleteWorkout(workoutId: string) {
+    await ipcRenderer.invoke('store/deleteWorkout', workoutId);
+  },
+  async importWorkout() {
+    const response = await ipcRenderer.invoke('workout/import');
+    return response?.workout as Workout | undefined;
+  },
+  async exportWorkout(workout: CreateWorkoutInput, format: WorkoutFileFormat) {
+    const response = await ipcRenderer.invoke('workout/export', workout, format);
+    return response?.filePath as string | undefined;
+  },
+  async listSessions() {
+    const response = await ipcRenderer.invoke('store/listSessions');
+    return (response?.sessions ?? []) as SessionSummary[];
+  },
+  async getSession(sessionId: string) {
+    const response = await ipcRenderer.invoke('store/getSession', sessionId);
+    return response?.session as SessionRecord | undefined;
+  },
+  async saveSession(input: SessionUpsertInput) {
+    const response = await ipcRenderer.invoke('store/saveSession', input);
+    return response.session as SessionRecord;
+  },
+  async deleteSession(sessionId: string) {
+    await ipcRenderer.invoke('store/deleteSession', sessionId);
+  },
+  async listFitExports() {
+    const response = await ipcRenderer.invoke('store/listFitExports');
+    return (response?.jobs ?? []) as FitExportJob[];
+  },
+  async exportFit(sessionId: string) {
+    const response = await ipcRenderer.invoke('fit/export', sessionId);
+    return response.job as FitExportJob;
+  },
+  async openFitExport(jobId: string) {
+    await ipcRenderer.invoke('fit/open', jobId);
+  },
+  async revealFitExport(jobId: string) {
+    await ipcRenderer.invoke('fit/reveal', jobId);
+  },
+  onFitExport(listener: (job: FitExportJob) => void) {
+    return registerChannel<FitExportJob>('fit:job', listener);
+  },
+  async markBlock(block: SessionBlockInput) {
+    await ipcRenderer.invoke('session/markBlock', block);
+  },
+  async getActiveSession() {
+    const response = await ipcRenderer.invoke('session/active');
+    return response?.session as SessionSummary | undefined;
+  },
+  onSessionRecord(listener: (session: SessionSummary) => void) {
+    return registerChannel<SessionSummary>('session:record', listener);
   },
 };
 
@@ -1,7 +1,109 @@
+type ControlMode = 'erg' | 'slope' | 'resistance';
+
+interface ResistanceRange {
+  minimum: number;
+  maximum: number;
+  increment: number;
+}
+
+interface TrainerCapabilities {
+  featuresKnown: boolean;
+  supportedModes: string[];
+  spinDownSupported: boolean;
+  powerRange: { minimum: number; maximum: number; increment: number };
+  resistanceRange: ResistanceRange;
+}
+
 interface SessionBlock {
   id: number;
   durationSec: number;
-  targetWatts: number;
+  targetWatts?: number;
+  // ramp blocks go from targetWatts to rampEndWatts over the block
+  rampEndWatts?: number;
+  // % FTP blocks carry these instead; the watts are filled in when the ride starts
+  targetPercentFtp?: number;
+  rampEndPercentFtp?: number;
+  targetSlopePercent?: number;
+  // free ride blocks carry no target; see getFreeRideTarget
+  freeRide?: boolean;
+  cues?: WorkoutCue[];
+}
+
+interface WorkoutCue {
+  offsetSeconds: number;
+  message: string;
+}
+
+// What the trainer is actually set to for a block, in whichever mode applies.
+interface BlockTarget {
+  targetWatts?: number;
+  targetSlopePercent?: number;
+  targetResistanceLevel?: number;
+}
+
+type WorkoutFileFormat = 'zwo' | 'erg' | 'mrc';
+
+// Saved workout as it comes back from the store; only the fields the builder reads.
+interface WorkoutBlock {
+  type: 'target' | 'ramp' | 'repeat' | 'freeRide';
+  durationSeconds: number;
+  targetPowerWatts?: number;
+  targetPowerEndWatts?: number;
+  targetPowerPercentFtp?: number;
+  targetPowerEndPercentFtp?: number;
+  targetSlopePercent?: number;
+  cues?: WorkoutCue[];
+  repeatCount?: number;
+  blocks?: WorkoutBlock[];
+}
+
+interface Workout {
+  id: string;
+  label: string;
+  description?: string;
+  tags?: string[];
+  updatedAt: string;
+  durationSeconds?: number;
+  estimatedTss?: number;
+  intensityFactor?: number;
+  blocks: WorkoutBlock[];
+}
+
+interface RiderProfile {
+  ftpWatts?: number;
+  weightKg?: number;
+  maxHeartRateBpm?: number;
+  lactateThresholdHeartRateBpm?: number;
+  updatedAt?: string;
+}
+
+// A set of blocks run `repeat` times, edited and moved as one builder item.
+interface RepeatGroup {
+  id: number;
+  repeat: number;
+  children: SessionBlock[];
+  // offsets count from the start of the whole set
+  cues?: WorkoutCue[];
+}
+
+type BuilderItem = SessionBlock | RepeatGroup;
+
+// One step of the expanded session the runner walks through.
+interface RunBlock extends SessionBlock {
+  itemIndex: number;
+  rep?: { index: number; count: number };
+}
+
+type LiveField = 'power' | 'heartRate' | 'cadence' | 'speed';
+
+// One point of the live charts; `t` is seconds since the ride started.
+type LiveSample = { t: number; target?: number } & Partial<Record<LiveField, number>>;
+
+interface LiveBucket {
+  t: number;
+  sums: Record<LiveField, number>;
+  counts: Record<LiveField, number>;
+  target?: number;
 }
 
 interface MetricStats {
@@ -15,17 +117,55 @@ interface MetricStats {
   heartRateSamples: number;
 }
 
-interface DiscoveredDevice {
+interface DeviceSnapshot {
   id: string;
-  label: string;
-  name?: string;
-  identifier?: string;
-  services: string[];
-  rssi?: number;
-  kind: 'trainer' | 'heart-rate' | 'unknown';
-  connectable: boolean;
-  connected: boolean;
-  lastSeen: number;
+  kind: 'trainer' | 'heartRateMonitor' | 'powerMeter' | 'cadenceSensor';
+  name: string;
+  identifier: string;
+  signalStrength?: number;
+  batteryLevel?: number;
+  firmwareVersion?: string;
+  serialNumber?: string;
+  metrics: string[];
+  state: 'discovered' | 'pairing' | 'paired' | 'connected' | 'disconnecting' | 'disconnected';
+  wheelCircumferenceMm?: number;
+  autoConnect?: boolean;
+  lastSeenAt?: string;
+}
+
+interface CalibrationState {
+  deviceId: string;
+  inProgress: boolean;
+  startedAt?: string;
+  completedAt?: string;
+  result?: 'success' | 'failure';
+  message?: string;
+  step?: 'speedUp' | 'stopPedaling';
+  targetSpeedLowKph?: number;
+  targetSpeedHighKph?: number;
+}
+
+interface SavedSession {
+  id: string;
+  mode: 'freeRide' | 'guided';
+  state: string;
+  startedAt: string;
+  endedAt?: string;
+  workoutLabel?: string;
+  metrics: {
+    distanceMeters?: number;
+    energyKcal?: number;
+  };
+}
+
+interface FitExportJob {
+  id: string;
+  sessionId: string;
+  requestedAt: string;
+  completedAt?: string;
+  status: 'queued' | 'processing' | 'completed' | 'failed';
+  outputPath?: string;
+  errorMessage?: string;
 }
 
 const createMetricStats = (): MetricStats => ({
@@ -45,10 +185,44 @@ const connectionStateLabel = document.getElementById('connectionState') as HTMLP
 const connectionDot = document.getElementById('connectionDot') as HTMLSpanElement | null;
 const deviceListElement = document.getElementById('deviceList') as HTMLUListElement | null;
 
+const profileFtpInput = document.getElementById('profileFtp') as HTMLInputElement | null;
+const profileWeightInput = document.getElementById('profileWeight') as HTMLInputElement | null;
+const profileMaxHeartRateInput = document.getElementById('profileMaxHeartRate') as HTMLInputElement | null;
+const profileLthrInput = document.getElementById('profileLthr') as HTMLInputElement | null;
+const saveProfileButton = document.getElementById('saveProfile') as HTMLButtonElement | null;
+const profileSummary = document.getElementById('profileSummary') as HTMLParagraphElement | null;
+
+const calibrationPanel = document.getElementById('calibrationPanel') as HTMLDivElement | null;
+const calibrateButton = document.getElementById('calibrate') as HTMLButtonElement | null;
+const calibrationPrompt = document.getElementById('calibrationPrompt') as HTMLParagraphElement | null;
+const calibrationLast = document.getElementById('calibrationLast') as HTMLParagraphElement | null;
+
 const blockDurationInput = document.getElementById('blockDuration') as HTMLInputElement | null;
+const blockTargetKindSelect = document.getElementById('blockTargetKind') as HTMLSelectElement | null;
+const blockWattsField = document.getElementById('blockWattsField') as HTMLDivElement | null;
 const blockWattsInput = document.getElementById('blockWatts') as HTMLInputElement | null;
+const blockWattsLabel = document.getElementById('blockWattsLabel') as HTMLLabelElement | null;
+const blockPowerUnitField = document.getElementById('blockPowerUnitField') as HTMLDivElement | null;
+const blockPowerUnitSelect = document.getElementById('blockPowerUnit') as HTMLSelectElement | null;
+const blockRampEndField = document.getElementById('blockRampEndField') as HTMLDivElement | null;
+const blockRampEndLabel = document.getElementById('blockRampEndLabel') as HTMLLabelElement | null;
+const blockRampEndInput = document.getElementById('blockRampEnd') as HTMLInputElement | null;
+const blockSlopeField = document.getElementById('blockSlopeField') as HTMLDivElement | null;
+const blockSlopeInput = document.getElementById('blockSlope') as HTMLInputElement | null;
 const addBlockButton = document.getElementById('addBlock') as HTMLButtonElement | null;
 const clearBlocksButton = document.getElementById('clearBlocks') as HTMLButtonElement | null;
+const importWorkoutButton = document.getElementById('importWorkout') as HTMLButtonElement | null;
+const exportFormatSelect = document.getElementById('exportFormat') as HTMLSelectElement | null;
+const exportWorkoutButton = document.getElementById('exportWorkout') as HTMLButtonElement | null;
+const workoutLabelInput = document.getElementById('workoutLabel') as HTMLInputElement | null;
+const workoutTagsInput = document.getElementById('workoutTags') as HTMLInputElement | null;
+const saveWorkoutButton = document.getElementById('saveWorkout') as HTMLButtonElement | null;
+const workoutSearchInput = document.getElementById('workoutSearch') as HTMLInputElement | null;
+const workoutTagFilterSelect = document.getElementById('workoutTagFilter') as HTMLSelectElement | null;
+const workoutListElement = document.getElementById('workoutList') as HTMLUListElement | null;
+const repeatBlockCountInput = document.getElementById('repeatBlockCount') as HTMLInputElement | null;
+const repeatCountInput = document.getElementById('repeatCount') as HTMLInputElement | null;
+const groupBlocksButton = document.getElementById('groupBlocks') as HTMLButtonElement | null;
 const blockListElement = document.getElementById('blockList') as HTMLUListElement | null;
 const totalDurationLabel = document.getElementById('totalDuration') as HTMLSpanElement | null;
 
@@ -56,10 +230,29 @@ const currentBlockLabel = document.getElementById('currentBlockLabel') as HTMLSp
 const currentBlockRemaining = document.getElementById('currentBlockRemaining') as HTMLSpanElement | null;
 const sessionRemainingLabel = document.getElementById('sessionRemaining') as HTMLSpanElement | null;
 const blockProgressBar = document.getElementById('blockProgress') as HTMLDivElement | null;
+const workoutChart = document.getElementById('workoutChart') as SVGSVGElement | null;
+const workoutChartBars = document.getElementById('workoutChartBars') as SVGGElement | null;
+const workoutChartTrace = document.getElementById('workoutChartTrace') as SVGPolylineElement | null;
+const workoutChartCursor = document.getElementById('workoutChartCursor') as SVGLineElement | null;
+const liveChartWindowSelect = document.getElementById('liveChartWindow') as HTMLSelectElement | null;
 const sessionProgressBar = document.getElementById('sessionProgress') as HTMLDivElement | null;
 
+const controlModeSelect = document.getElementById('controlMode') as HTMLSelectElement | null;
+const targetWattsField = document.getElementById('targetWattsField') as HTMLDivElement | null;
 const targetInput = document.getElementById('targetWatts') as HTMLInputElement | null;
+const targetSlopeField = document.getElementById('targetSlopeField') as HTMLDivElement | null;
+const targetSlopeInput = document.getElementById('targetSlope') as HTMLInputElement | null;
+const targetResistanceField = document.getElementById('targetResistanceField') as HTMLDivElement | null;
+const targetResistanceInput = document.getElementById('targetResistance') as HTMLInputElement | null;
+const targetResistanceValue = document.getElementById('targetResistanceValue') as HTMLSpanElement | null;
 const durationInput = document.getElementById('duration') as HTMLInputElement | null;
+const powerSourceField = document.getElementById('powerSourceField') as HTMLDivElement | null;
+const powerSourceSelect = document.getElementById('powerSource') as HTMLSelectElement | null;
+const wheelCircumferenceField = document.getElementById('wheelCircumferenceField') as HTMLDivElement | null;
+const wheelCircumferenceInput = document.getElementById('wheelCircumference') as HTMLInputElement | null;
+const powerMatchField = document.getElementById('powerMatchField') as HTMLDivElement | null;
+const powerMatchSelect = document.getElementById('powerMatch') as HTMLSelectElement | null;
+const powerMatchSummary = document.getElementById('powerMatchSummary') as HTMLParagraphElement | null;
 const startButton = document.getElementById('start') as HTMLButtonElement | null;
 const pauseButton = document.getElementById('pause') as HTMLButtonElement | null;
 const stopButton = document.getElementById('stop') as HTMLButtonElement | null;
@@ -71,6 +264,9 @@ const telemetryPower = document.getElementById('telemetryPower') as HTMLParagrap
 const telemetryCadence = document.getElementById('telemetryCadence') as HTMLParagraphElement | null;
 const telemetrySpeed = document.getElementById('telemetrySpeed') as HTMLParagraphElement | null;
 const telemetryHeartRate = document.getElementById('telemetryHeartRate') as HTMLParagraphElement | null;
+const telemetryResistance = document.getElementById('telemetryResistance') as HTMLParagraphElement | null;
+const telemetryDistance = document.getElementById('telemetryDistance') as HTMLParagraphElement | null;
+const telemetryEnergy = document.getElementById('telemetryEnergy') as HTMLParagraphElement | null;
 
 const avgPowerElem = document.getElementById('avgPower') as HTMLParagraphElement | null;
 const avgCadenceElem = document.getElementById('avgCadence') as HTMLParagraphElement | null;
@@ -82,16 +278,29 @@ const blockAvgSpeedElem = document.getElementById('blockAvgSpeed') as HTMLParagr
 const blockAvgHeartRateElem = document.getElementById('blockAvgHeartRate') as HTMLParagraphElement | null;
 
 const eventLog = document.getElementById('eventLog') as HTMLUListElement | null;
+const sessionListElement = document.getElementById('sessionList') as HTMLUListElement | null;
 
-let blocks: SessionBlock[] = [];
+let blocks: BuilderItem[] = [];
+let runBlocks: RunBlock[] = [];
+let riderProfile: RiderProfile = {};
+let loadedWorkout: { id: string; label: string } | null = null;
+let libraryWorkouts: Workout[] = [];
 let blockCounter = 0;
 
 let sessionActive = false;
 let structuredSession = false;
 let sessionPaused = false;
-let discoveredDevices: DiscoveredDevice[] = [];
+// set while the Stop button waits on the trainer, so its status isn't taken for a trainer-side stop
+let stopRequested = false;
+let controlMode: ControlMode = 'erg';
+let discoveredDevices: DeviceSnapshot[] = [];
+let savedDevices: DeviceSnapshot[] = [];
 let deviceScanning = false;
 let connectedDeviceId: string | null = null;
+let activeCalibration: CalibrationState | null = null;
+let lastCalibration: CalibrationState | null = null;
+let calibrationDeviceId: string | null = null;
+let calibrationSpeedKph: number | undefined;
 let currentBlockIndex = -1;
 let sessionStartTime = 0;
 let blockStartTime = 0;
@@ -99,11 +308,35 @@ let sessionElapsedMs = 0;
 let blockElapsedMs = 0;
 let blockTimer: ReturnType<typeof setTimeout> | null = null;
 let progressInterval: ReturnType<typeof setInterval> | null = null;
+let lastRampWrite: { watts: number; at: number } | null = null;
+let nextCueIndex = 0;
+let powerTrace: { sec: number; sum: number; count: number }[] = [];
+let powerTraceStepSec = 1;
+let liveTargetWatts: number | undefined;
+let liveStartTime = Date.now();
+let liveRecent: LiveSample[] = [];
+let liveRecentHead = 0;
+let liveRide: LiveBucket[] = [];
+let liveBucketSec = 1;
+let liveDrawPending = false;
+let chartScale = { totalSec: 0, peak: 1 };
+let chartDrag: {
+  block: SessionBlock;
+  edge: 'end' | 'top';
+  startX: number;
+  startY: number;
+  durationSec: number;
+  level: number;
+  secPerPx: number;
+  levelPerPx: number;
+} | null = null;
 
 const overallStats = createMetricStats();
 let blockStats: MetricStats[] = [];
 
 let lastStatusMessage = '';
+let lastCapabilitiesKey = '';
+let trainerCapabilities: TrainerCapabilities | undefined;
 let lastConnected = false;
 let lastRunning = false;
 
@@ -111,6 +344,9 @@ let draggingBlockId: number | null = null;
 let dropTargetId: number | null = null;
 let dropBeforeTarget = true;
 
+let savedSessions: SavedSession[] = [];
+const fitJobsBySession = new Map<string, FitExportJob>();
+
 const formatNumber = (value?: number, unit = ''): string => {
   if (value === undefined || Number.isNaN(value)) {
     return '—';
@@ -129,6 +365,65 @@ const formatSeconds = (seconds: number): string => {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 };
 
+const formatSlope = (percent: number): string => `${percent > 0 ? '+' : ''}${percent.toFixed(1)} %`;
+
+const isRampBlock = (block: SessionBlock): boolean =>
+  typeof block.rampEndWatts === 'number' || typeof block.rampEndPercentFtp === 'number';
+
+const wattsFromFtp = (percent: number): number | undefined =>
+  riderProfile.ftpWatts ? Math.round((riderProfile.ftpWatts * percent) / 100) : undefined;
+
+const percentOfFtp = (watts: number): number | undefined =>
+  riderProfile.ftpWatts ? Math.round((watts / riderProfile.ftpWatts) * 100) : undefined;
+
+const formatPowerRange = (start: number, end: number | undefined, unit: string): string =>
+  end === undefined ? `${start} ${unit}` : `${start} → ${end} ${unit}`;
+
+// Shows the unit the block was built in first, then the other one when the FTP is known.
+const formatBlockTarget = (block: SessionBlock): string => {
+  if (block.freeRide) {
+    return 'Free ride';
+  }
+  if (typeof block.targetSlopePercent === 'number') {
+    return formatSlope(block.targetSlopePercent);
+  }
+  const ramp = isRampBlock(block);
+  if (typeof block.targetPercentFtp === 'number') {
+    const endPercent = ramp ? block.rampEndPercentFtp : undefined;
+    const percents = formatPowerRange(block.targetPercentFtp, endPercent, '% FTP');
+    const startWatts = wattsFromFtp(block.targetPercentFtp);
+    if (startWatts === undefined) {
+      return percents;
+    }
+    return `${percents} (${formatPowerRange(startWatts, endPercent === undefined ? undefined : wattsFromFtp(endPercent), 'W')})`;
+  }
+  const endWatts = ramp ? block.rampEndWatts : undefined;
+  const watts = formatPowerRange(block.targetWatts ?? 0, endWatts, 'W');
+  const startPercent = percentOfFtp(block.targetWatts ?? 0);
+  if (startPercent === undefined) {
+    return watts;
+  }
+  return `${watts} (${formatPowerRange(startPercent, endWatts === undefined ? undefined : percentOfFtp(endWatts), '% FTP')})`;
+};
+
+const getBlockTargetWatts = (block: SessionBlock, elapsedSec: number): number => {
+  const start = block.targetWatts ?? 0;
+  if (!isRampBlock(block) || block.durationSec <= 0) {
+    return start;
+  }
+  const fraction = Math.min(1, Math.max(0, elapsedSec / block.durationSec));
+  return Math.round(start + ((block.rampEndWatts ?? start) - start) * fraction);
+};
+
+// Clip path drawing a ramp as a wedge; the lower end keeps some height so it stays visible.
+const getRampClipPath = (block: SessionBlock): string => {
+  const start = block.targetWatts ?? block.targetPercentFtp ?? 0;
+  const end = block.rampEndWatts ?? block.rampEndPercentFtp ?? start;
+  const peak = Math.max(start, end, 1);
+  const top = (watts: number) => 100 - Math.max(20, (watts / peak) * 100);
+  return `polygon(0 ${top(start)}%, 100% ${top(end)}%, 100% 100%, 0 100%)`;
+};
+
 const setStatus = (text: string): void => {
   if (statusMessage) {
     statusMessage.textContent = text;
@@ -174,7 +469,115 @@ const appendLog = (message: string): void => {
   }
 };
 
-const getTotalDurationSec = (): number => blocks.reduce((acc, block) => acc + block.durationSec, 0);
+const isRepeatGroup = (item: BuilderItem): item is RepeatGroup => 'children' in item;
+
+const getItemDurationSec = (item: BuilderItem): number =>
+  isRepeatGroup(item)
+    ? item.repeat * item.children.reduce((acc, child) => acc + child.durationSec, 0)
+    : item.durationSec;
+
+const getTotalDurationSec = (): number => blocks.reduce((acc, item) => acc + getItemDurationSec(item), 0);
+
+/**
+ * Turns % FTP targets into watts with the FTP saved at the time of the call.
+ */
+const resolveFtpTargets = (steps: RunBlock[]): RunBlock[] => {
+  const ftp = riderProfile.ftpWatts;
+  return steps.map((step) => {
+    if (typeof step.targetPercentFtp !== 'number') {
+      return step;
+    }
+    if (!ftp) {
+      throw new Error('Set your FTP in the rider profile to ride % FTP blocks');
+    }
+    return {
+      ...step,
+      targetWatts: Math.round((ftp * step.targetPercentFtp) / 100),
+      rampEndWatts: typeof step.rampEndPercentFtp === 'number' ? Math.round((ftp * step.rampEndPercentFtp) / 100) : undefined,
+    };
+  });
+};
+
+const expandBlocks = (items: BuilderItem[]): RunBlock[] =>
+  items.flatMap((item, itemIndex): RunBlock[] => {
+    if (!isRepeatGroup(item)) {
+      return [{ ...item, itemIndex }];
+    }
+    const steps: RunBlock[] = [];
+    let startSec = 0;
+    for (let rep = 1; rep <= item.repeat; rep += 1) {
+      item.children.forEach((child) => {
+        const endSec = startSec + child.durationSec;
+        const cues = (item.cues ?? [])
+          .filter((cue) => cue.offsetSeconds >= startSec && cue.offsetSeconds < endSec)
+          .map((cue) => ({ ...cue, offsetSeconds: cue.offsetSeconds - startSec }));
+        steps.push({
+          ...child,
+          itemIndex,
+          rep: { index: rep, count: item.repeat },
+          cues: [...(child.cues ?? []), ...cues],
+        });
+        startSec = endSec;
+      });
+    }
+    return steps;
+  });
+
+const toSessionBlock = (block: WorkoutBlock): SessionBlock => {
+  const session: SessionBlock = {
+    id: ++blockCounter,
+    durationSec: Math.max(1, Math.round(block.durationSeconds)),
+    cues: block.cues,
+  };
+  if (block.type === 'freeRide') {
+    session.freeRide = true;
+  } else if (typeof block.targetSlopePercent === 'number') {
+    session.targetSlopePercent = block.targetSlopePercent;
+  } else if (typeof block.targetPowerPercentFtp === 'number') {
+    session.targetPercentFtp = block.targetPowerPercentFtp;
+    if (block.type === 'ramp') {
+      session.rampEndPercentFtp = block.targetPowerEndPercentFtp;
+    }
+  } else {
+    session.targetWatts = block.targetPowerWatts ?? 0;
+    if (block.type === 'ramp') {
+      session.rampEndWatts = block.targetPowerEndWatts;
+    }
+  }
+  return session;
+};
+
+const toBuilderItem = (block: WorkoutBlock): BuilderItem =>
+  block.type === 'repeat'
+    ? {
+        id: ++blockCounter,
+        repeat: block.repeatCount ?? 1,
+        children: (block.blocks ?? []).map(toSessionBlock),
+        cues: block.cues,
+      }
+    : toSessionBlock(block);
+
+const toWorkoutBlock = (item: BuilderItem): WorkoutBlock => {
+  if (isRepeatGroup(item)) {
+    return {
+      type: 'repeat',
+      durationSeconds: getItemDurationSec(item),
+      repeatCount: item.repeat,
+      blocks: item.children.map(toWorkoutBlock),
+      cues: item.cues,
+    };
+  }
+  return {
+    type: item.freeRide ? 'freeRide' : isRampBlock(item) ? 'ramp' : 'target',
+    durationSeconds: item.durationSec,
+    targetPowerWatts: item.targetWatts,
+    targetPowerEndWatts: item.rampEndWatts,
+    targetPowerPercentFtp: item.targetPercentFtp,
+    targetPowerEndPercentFtp: item.rampEndPercentFtp,
+    targetSlopePercent: item.freeRide ? undefined : item.targetSlopePercent,
+    cues: item.cues,
+  };
+};
 
 const resetStats = (): void => {
   overallStats.powerSum = 0;
@@ -185,8 +588,9 @@ const resetStats = (): void => {
   overallStats.speedSamples = 0;
   overallStats.heartRateSum = 0;
   overallStats.heartRateSamples = 0;
-  blockStats = blocks.map(() => createMetricStats());
+  blockStats = runBlocks.map(() => createMetricStats());
   updateMetricsDisplay();
+  resetLiveCharts();
 };
 
 const updateMetricsDisplay = (): void => {
@@ -229,7 +633,7 @@ const renderBlocks = (): void => {
       const item = document.createElement('li');
       item.dataset.id = block.id.toString();
       item.dataset.index = index.toString();
-      const isActive = structuredSession && sessionActive && index === currentBlockIndex;
+      const isActive = structuredSession && sessionActive && runBlocks[currentBlockIndex]?.itemIndex === index;
       if (isActive) {
         item.classList.add('active');
       }
@@ -247,10 +651,46 @@ const renderBlocks = (): void => {
 
       const text = document.createElement('div');
       text.className = 'block-item-text';
-      text.innerHTML = `<strong>Block ${index + 1}</strong> – ${formatSeconds(block.durationSec)} @ ${block.targetWatts} W`;
-
       main.append(handle, text);
 
+      if (isRepeatGroup(block)) {
+        item.classList.add('repeat-group');
+        const steps = block.children.map((child) => `${formatSeconds(child.durationSec)} @ ${formatBlockTarget(child)}`);
+        text.innerHTML = `<strong>Block ${index + 1}</strong> – ${block.repeat}× (${steps.join(' / ')}) · ${formatSeconds(getItemDurationSec(block))}`;
+
+        const controls = document.createElement('div');
+        controls.className = 'repeat-controls';
+        [
+          { label: '−', delta: '-1', aria: 'One repeat less' },
+          { label: '+', delta: '1', aria: 'One repeat more' },
+        ].forEach(({ label, delta, aria }) => {
+          const button = document.createElement('button');
+          button.className = 'ghost';
+          button.dataset.repeatDelta = delta;
+          button.dataset.group = block.id.toString();
+          button.setAttribute('aria-label', aria);
+          button.textContent = label;
+          button.draggable = false;
+          controls.appendChild(button);
+        });
+        const ungroup = document.createElement('button');
+        ungroup.className = 'ghost';
+        ungroup.dataset.ungroup = block.id.toString();
+        ungroup.textContent = 'Ungroup';
+        ungroup.draggable = false;
+        controls.appendChild(ungroup);
+        main.appendChild(controls);
+      } else {
+        text.innerHTML = `<strong>Block ${index + 1}</strong> – ${formatSeconds(block.durationSec)} @ ${formatBlockTarget(block)}`;
+      }
+      if (!isRepeatGroup(block) && isRampBlock(block)) {
+        const shape = document.createElement('span');
+        shape.className = 'ramp-shape';
+        shape.setAttribute('aria-hidden', 'true');
+        shape.style.clipPath = getRampClipPath(block);
+        main.appendChild(shape);
+      }
+
       const removeButton = document.createElement('button');
       removeButton.className = 'ghost';
       removeButton.dataset.remove = block.id.toString();
@@ -266,6 +706,7 @@ const renderBlocks = (): void => {
   if (totalDurationLabel) {
     totalDurationLabel.textContent = formatSeconds(getTotalDurationSec());
   }
+  renderWorkoutChart();
 };
 
 const getBlockIndexById = (blockId: number): number => blocks.findIndex((block) => block.id === blockId);
@@ -307,38 +748,71 @@ const resetDragState = (): void => {
   dropBeforeTarget = true;
 };
 
-const getDeviceKindLabel = (device: DiscoveredDevice): string => {
+const getDeviceKindLabel = (device: DeviceSnapshot): string => {
   switch (device.kind) {
     case 'trainer':
       return 'Trainer';
-    case 'heart-rate':
+    case 'heartRateMonitor':
       return 'Heart rate';
+    case 'powerMeter':
+      return 'Power meter';
+    case 'cadenceSensor':
+      return 'Speed/cadence';
     default:
       return 'Bluetooth device';
   }
 };
 
+const getDeviceLabel = (device: DeviceSnapshot): string =>
+  device.identifier && device.identifier !== device.id ? `${device.name} • ${device.identifier}` : device.name;
+
+// Below this the link tends to drop packets, worth moving the device or the dongle.
+const WEAK_SIGNAL_DBM = -85;
+const LOW_BATTERY_PERCENT = 20;
+
 const formatRssi = (value?: number): string | undefined => {
   if (typeof value !== 'number' || Number.isNaN(value)) {
     return undefined;
   }
-  return `${value} dBm`;
+  return value < WEAK_SIGNAL_DBM ? `${value} dBm (weak)` : `${value} dBm`;
+};
+
+const formatBattery = (level?: number): string | undefined => {
+  if (typeof level !== 'number') {
+    return undefined;
+  }
+  return level <= LOW_BATTERY_PERCENT ? `Battery ${level} % (low)` : `Battery ${level} %`;
+};
+
+const warnLowBatteries = (): void => {
+  discoveredDevices
+    .filter((device) => device.state === 'connected' && typeof device.batteryLevel === 'number')
+    .filter((device) => (device.batteryLevel as number) <= LOW_BATTERY_PERCENT)
+    .forEach((device) => {
+      appendLog(`Low battery: ${getDeviceLabel(device)} at ${device.batteryLevel} %`);
+    });
 };
 
 const renderDeviceList = (): void => {
   if (!deviceListElement) return;
 
-  if (!discoveredDevices.length) {
+  // remembered devices that are not advertising right now are listed after the nearby ones
+  const outOfRange = savedDevices.filter((saved) => !discoveredDevices.some((device) => device.id === saved.id));
+  const devices = [...discoveredDevices, ...outOfRange];
+
+  if (!devices.length) {
     const placeholder = deviceScanning ? 'Scanning for Bluetooth devices…' : 'No devices found. Try rescan.';
     deviceListElement.innerHTML = `<li class="placeholder">${placeholder}</li>`;
     return;
   }
 
   deviceListElement.innerHTML = '';
-  discoveredDevices.forEach((device) => {
+  devices.forEach((device) => {
+    const saved = savedDevices.find((entry) => entry.id === device.id);
+    const inRange = !outOfRange.includes(device);
     const item = document.createElement('li');
     item.className = 'device-item';
-    const isConnected = device.connected || (connectedDeviceId !== null && device.id === connectedDeviceId);
+    const isConnected = device.state === 'connected' || (connectedDeviceId !== null && device.id === connectedDeviceId);
     if (isConnected) {
       item.classList.add('connected');
     }
@@ -347,53 +821,487 @@ const renderDeviceList = (): void => {
 
     const labelElem = document.createElement('p');
     labelElem.className = 'device-label';
-    labelElem.textContent = device.label;
+    labelElem.textContent = getDeviceLabel(device);
 
     const metaElem = document.createElement('p');
     metaElem.className = 'device-meta';
     const metaParts: string[] = [getDeviceKindLabel(device)];
-    const rssiText = formatRssi(device.rssi);
+    const rssiText = inRange ? formatRssi(device.signalStrength) : 'Not in range';
     if (rssiText) {
       metaParts.push(rssiText);
     }
+    const batteryText = formatBattery(device.batteryLevel);
+    if (batteryText) {
+      metaParts.push(batteryText);
+    }
     metaElem.textContent = metaParts.join(' • ');
+    const details = [
+      device.firmwareVersion ? `Firmware ${device.firmwareVersion}` : undefined,
+      device.serialNumber ? `Serial ${device.serialNumber}` : undefined,
+    ].filter(Boolean);
+    if (details.length) {
+      info.title = details.join(' • ');
+    }
 
     info.appendChild(labelElem);
     info.appendChild(metaElem);
 
     const action = document.createElement('button');
     action.type = 'button';
-    const supportsConnect = device.kind === 'trainer' || device.kind === 'heart-rate';
     action.className = isConnected ? 'danger small device-action' : 'small device-action';
     action.dataset.deviceId = device.id;
     action.dataset.deviceKind = device.kind;
-    if (supportsConnect || isConnected) {
-      action.dataset.deviceAction = isConnected ? 'disconnect' : 'connect';
-      action.textContent = isConnected ? 'Disconnect' : 'Connect';
-      if (!isConnected && !device.connectable) {
-        action.disabled = true;
-      }
-    } else {
+    if (device.state === 'pairing' || device.state === 'disconnecting') {
+      action.className = 'ghost small device-action';
+      action.textContent = device.state === 'pairing' ? 'Pairing…' : 'Disconnecting…';
+      action.disabled = true;
+    } else if (!inRange) {
       action.className = 'ghost small device-action';
-      action.textContent = 'Unavailable';
+      action.textContent = 'Connect';
       action.disabled = true;
+    } else {
+      action.dataset.deviceAction = isConnected ? 'disconnect' : 'connect';
+      action.textContent = isConnected ? 'Disconnect' : 'Connect';
     }
 
+    const actions = document.createElement('div');
+    actions.className = 'device-actions';
+    if (saved) {
+      const autoLabel = document.createElement('label');
+      autoLabel.className = 'device-auto';
+      const autoToggle = document.createElement('input');
+      autoToggle.type = 'checkbox';
+      autoToggle.checked = saved.autoConnect !== false;
+      autoToggle.dataset.deviceAuto = device.id;
+      autoLabel.appendChild(autoToggle);
+      autoLabel.appendChild(document.createTextNode(' Auto'));
+      actions.appendChild(autoLabel);
+
+      const forget = document.createElement('button');
+      forget.type = 'button';
+      forget.className = 'ghost small';
+      forget.dataset.deviceAction = 'forget';
+      forget.dataset.deviceId = device.id;
+      forget.textContent = 'Forget';
+      actions.appendChild(forget);
+    }
+    actions.appendChild(action);
+
     item.appendChild(info);
-    item.appendChild(action);
+    item.appendChild(actions);
     deviceListElement.appendChild(item);
   });
 };
 
+const describeCalibrationStep = (calibration: CalibrationState): string => {
+  if (calibration.step === 'stopPedaling') {
+    return 'Stop pedaling and let the flywheel coast down…';
+  }
+  const target = typeof calibration.targetSpeedHighKph === 'number'
+    ? ` above ${formatNumber(calibration.targetSpeedHighKph, ' km/h')}`
+    : '';
+  const current = typeof calibrationSpeedKph === 'number' ? ` (now ${formatNumber(calibrationSpeedKph, ' km/h')})` : '';
+  return `Pedal up to${target}${current}`;
+};
+
+const renderCalibration = (): void => {
+  if (calibrateButton) calibrateButton.textContent = activeCalibration ? 'Cancel' : 'Calibrate';
+  if (calibrationPrompt) {
+    calibrationPrompt.textContent = activeCalibration
+      ? describeCalibrationStep(activeCalibration)
+      : 'Warm up for about 10 minutes, then run a spin down.';
+  }
+  if (!calibrationLast) return;
+  if (!lastCalibration?.completedAt) {
+    calibrationLast.textContent = 'Never calibrated';
+    return;
+  }
+  const outcome = lastCalibration.result === 'success' ? 'succeeded' : `failed (${lastCalibration.message ?? 'unknown error'})`;
+  calibrationLast.textContent = `Last spin down ${outcome} on ${new Date(lastCalibration.completedAt).toLocaleString()}`;
+};
+
+const loadCalibration = async (deviceId: string): Promise<void> => {
+  calibrationDeviceId = deviceId;
+  try {
+    const calibration = await window.ergApi.getCalibration(deviceId);
+    if (calibrationDeviceId === deviceId) {
+      lastCalibration = calibration ?? null;
+      renderCalibration();
+    }
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+const describeFitJob = (job?: FitExportJob): string | undefined => {
+  if (!job) return undefined;
+  switch (job.status) {
+    case 'queued':
+      return 'FIT export queued';
+    case 'processing':
+      return 'Exporting FIT…';
+    case 'completed':
+      return 'FIT ready';
+    case 'failed':
+      return `FIT export failed: ${job.errorMessage ?? 'unknown error'}`;
+    default:
+      return undefined;
+  }
+};
+
+const renderSessionList = (): void => {
+  if (!sessionListElement) return;
+
+  if (!savedSessions.length) {
+    sessionListElement.innerHTML = '<li class="placeholder">No rides recorded yet.</li>';
+    return;
+  }
+
+  sessionListElement.innerHTML = '';
+  savedSessions.forEach((session) => {
+    const item = document.createElement('li');
+    item.className = 'session-item';
+
+    const info = document.createElement('div');
+
+    const labelElem = document.createElement('p');
+    labelElem.className = 'session-label';
+    labelElem.textContent = session.workoutLabel ?? (session.mode === 'guided' ? 'Structured session' : 'Free ride');
+
+    const metaElem = document.createElement('p');
+    metaElem.className = 'session-meta';
+    const metaParts: string[] = [new Date(session.startedAt).toLocaleString()];
+    if (session.endedAt) {
+      metaParts.push(formatSeconds((Date.parse(session.endedAt) - Date.parse(session.startedAt)) / 1000));
+    }
+    if (typeof session.metrics.distanceMeters === 'number') {
+      metaParts.push(`${(session.metrics.distanceMeters / 1000).toFixed(1)} km`);
+    }
+    if (typeof session.metrics.energyKcal === 'number') {
+      metaParts.push(`${Math.round(session.metrics.energyKcal)} kcal`);
+    }
+    const job = fitJobsBySession.get(session.id);
+    const jobText = describeFitJob(job);
+    if (jobText) {
+      metaParts.push(jobText);
+    }
+    metaElem.classList.toggle('failed', job?.status === 'failed');
+    metaElem.textContent = metaParts.join(' • ');
+
+    info.append(labelElem, metaElem);
+
+    const actions = document.createElement('div');
+    actions.className = 'session-actions';
+
+    const exportButton = document.createElement('button');
+    exportButton.type = 'button';
+    exportButton.className = 'ghost small';
+    exportButton.dataset.sessionAction = 'export';
+    exportButton.dataset.sessionId = session.id;
+    exportButton.textContent = 'Export .fit';
+    exportButton.disabled = job?.status === 'queued' || job?.status === 'processing';
+    actions.appendChild(exportButton);
+
+    if (job?.status === 'completed') {
+      const openButton = document.createElement('button');
+      openButton.type = 'button';
+      openButton.className = 'small';
+      openButton.dataset.sessionAction = 'open';
+      openButton.dataset.jobId = job.id;
+      openButton.textContent = 'Show file';
+      actions.appendChild(openButton);
+    }
+
+    item.append(info, actions);
+    sessionListElement.appendChild(item);
+  });
+};
+
+const trackFitJob = (job: FitExportJob): void => {
+  const current = fitJobsBySession.get(job.sessionId);
+  if (!current || current.id === job.id || current.requestedAt <= job.requestedAt) {
+    fitJobsBySession.set(job.sessionId, job);
+  }
+};
+
+const parseTags = (value: string): string[] =>
+  Array.from(new Set(value.split(',').map((tag) => tag.trim()).filter(Boolean)));
+
+const matchesWorkoutFilter = (workout: Workout): boolean => {
+  const tag = workoutTagFilterSelect?.value ?? '';
+  if (tag && !workout.tags?.includes(tag)) {
+    return false;
+  }
+  const query = workoutSearchInput?.value.trim().toLowerCase() ?? '';
+  if (!query) {
+    return true;
+  }
+  return [workout.label, workout.description ?? '', ...(workout.tags ?? [])].some((text) => text.toLowerCase().includes(query));
+};
+
+const renderWorkoutTagFilter = (): void => {
+  if (!workoutTagFilterSelect) return;
+  const selected = workoutTagFilterSelect.value;
+  const tags = Array.from(new Set(libraryWorkouts.flatMap((workout) => workout.tags ?? []))).sort((a, b) => a.localeCompare(b));
+  workoutTagFilterSelect.innerHTML = '<option value="">All tags</option>';
+  tags.forEach((tag) => {
+    const option = document.createElement('option');
+    option.value = tag;
+    option.textContent = tag;
+    workoutTagFilterSelect.appendChild(option);
+  });
+  workoutTagFilterSelect.value = tags.includes(selected) ? selected : '';
+};
+
+const renderWorkoutList = (): void => {
+  if (!workoutListElement) return;
+
+  const workouts = libraryWorkouts.filter(matchesWorkoutFilter);
+  if (!workouts.length) {
+    const message = libraryWorkouts.length ? 'No workouts match the filter.' : 'No saved workouts yet.';
+    workoutListElement.innerHTML = `<li class="placeholder">${message}</li>`;
+    return;
+  }
+
+  workoutListElement.innerHTML = '';
+  workouts.forEach((workout) => {
+    const item = document.createElement('li');
+    item.className = 'session-item';
+    item.classList.toggle('loaded', loadedWorkout?.id === workout.id);
+
+    const info = document.createElement('div');
+
+    const labelElem = document.createElement('p');
+    labelElem.className = 'session-label';
+    labelElem.textContent = workout.label;
+
+    const metaElem = document.createElement('p');
+    metaElem.className = 'session-meta';
+    const metaParts: string[] = [formatSeconds(workout.durationSeconds ?? 0)];
+    if (typeof workout.estimatedTss === 'number') {
+      metaParts.push(`TSS ${workout.estimatedTss}`);
+    }
+    if (typeof workout.intensityFactor === 'number') {
+      metaParts.push(`IF ${workout.intensityFactor.toFixed(2)}`);
+    }
+    if (workout.tags?.length) {
+      metaParts.push(workout.tags.map((tag) => `#${tag}`).join(' '));
+    }
+    metaElem.textContent = metaParts.join(' • ');
+    if (workout.description) {
+      info.title = workout.description;
+    }
+
+    info.append(labelElem, metaElem);
+
+    const actions = document.createElement('div');
+    actions.className = 'session-actions';
+    [
+      { action: 'load', label: 'Load', className: 'small' },
+      { action: 'duplicate', label: 'Duplicate', className: 'ghost small' },
+      { action: 'delete', label: 'Delete', className: 'ghost small' },
+    ].forEach(({ action, label, className }) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = className;
+      button.dataset.workoutAction = action;
+      button.dataset.workoutId = workout.id;
+      button.textContent = label;
+      actions.appendChild(button);
+    });
+
+    item.append(info, actions);
+    workoutListElement.appendChild(item);
+  });
+};
+
+const loadWorkoutLibrary = async (): Promise<void> => {
+  try {
+    const workouts: Workout[] = await window.ergApi.listWorkouts();
+    libraryWorkouts = [...workouts].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    renderWorkoutTagFilter();
+    renderWorkoutList();
+  } catch (error) {
+    console.error(error);
+    appendLog(`Failed to load workout library: ${(error as Error).message}`);
+  }
+};
+
+const loadSessionHistory = async (): Promise<void> => {
+  try {
+    const [sessions, jobs] = await Promise.all([window.ergApi.listSessions(), window.ergApi.listFitExports()]);
+    savedSessions = [...sessions].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    fitJobsBySession.clear();
+    jobs.forEach(trackFitJob);
+    renderSessionList();
+  } catch (error) {
+    console.error(error);
+    appendLog(`Failed to load ride history: ${(error as Error).message}`);
+  }
+};
+
 const updateTargetLabel = (watts: number): void => {
+  liveTargetWatts = watts;
   if (currentTargetLabel) {
-    currentTargetLabel.textContent = `Target: ${Math.round(watts)} W`;
+    const percent = percentOfFtp(watts);
+    currentTargetLabel.textContent = `Target: ${Math.round(watts)} W${percent === undefined ? '' : ` (${percent} % FTP)`}`;
   }
   if (targetInput) {
     targetInput.value = String(Math.round(watts));
   }
 };
 
+const updateSlopeLabel = (percent: number): void => {
+  liveTargetWatts = undefined;
+  if (currentTargetLabel) {
+    currentTargetLabel.textContent = `Target: ${formatSlope(percent)}`;
+  }
+  if (targetSlopeInput) {
+    targetSlopeInput.value = String(Math.round(percent * 10) / 10);
+  }
+};
+
+const updateResistanceLabel = (level: number): void => {
+  liveTargetWatts = undefined;
+  const text = (Math.round(level * 10) / 10).toString();
+  if (currentTargetLabel) {
+    currentTargetLabel.textContent = `Target: level ${text}`;
+  }
+  if (targetResistanceInput) {
+    targetResistanceInput.value = String(level);
+  }
+  if (targetResistanceValue) {
+    targetResistanceValue.textContent = text;
+  }
+};
+
+const applyResistanceRange = (range: ResistanceRange): void => {
+  if (!targetResistanceInput) return;
+  targetResistanceInput.min = String(range.minimum);
+  targetResistanceInput.max = String(range.maximum);
+  targetResistanceInput.step = String(range.increment);
+  const current = Number(targetResistanceInput.value);
+  if (current < range.minimum || current > range.maximum) {
+    targetResistanceInput.value = String(range.minimum);
+  }
+  if (targetResistanceValue) {
+    targetResistanceValue.textContent = targetResistanceInput.value;
+  }
+};
+
+const CONTROL_MODES: ControlMode[] = ['erg', 'slope', 'resistance'];
+
+const CONTROL_MODE_LABELS: Record<ControlMode, string> = {
+  erg: 'ERG',
+  slope: 'Slope',
+  resistance: 'Resistance',
+};
+
+const NUDGE_LABELS: Record<ControlMode, [string, string]> = {
+  erg: ['-10 W', '+10 W'],
+  slope: ['-0.5 %', '+0.5 %'],
+  resistance: ['-1 level', '+1 level'],
+};
+
+const setControlMode = (mode: ControlMode): void => {
+  controlMode = mode;
+  if (controlModeSelect) controlModeSelect.value = mode;
+  if (targetWattsField) targetWattsField.hidden = mode !== 'erg';
+  if (targetSlopeField) targetSlopeField.hidden = mode !== 'slope';
+  if (targetResistanceField) targetResistanceField.hidden = mode !== 'resistance';
+  if (decreaseButton) decreaseButton.textContent = NUDGE_LABELS[mode][0];
+  if (increaseButton) increaseButton.textContent = NUDGE_LABELS[mode][1];
+  if (mode === 'slope') {
+    updateSlopeLabel(Number(targetSlopeInput?.value ?? 0));
+  } else if (mode === 'resistance') {
+    updateResistanceLabel(Number(targetResistanceInput?.value ?? 0));
+  } else {
+    updateTargetLabel(Number(targetInput?.value ?? 0));
+  }
+};
+
+const applyCapabilities = (capabilities: TrainerCapabilities): void => {
+  const key = JSON.stringify(capabilities);
+  if (key === lastCapabilitiesKey) return;
+  lastCapabilitiesKey = key;
+  trainerCapabilities = capabilities;
+
+  applyResistanceRange(capabilities.resistanceRange);
+  if (targetInput) {
+    targetInput.min = String(capabilities.powerRange.minimum);
+    targetInput.max = String(capabilities.powerRange.maximum);
+  }
+
+  const supported = CONTROL_MODES.filter((mode) => capabilities.supportedModes.includes(mode));
+  if (controlModeSelect) {
+    Array.from(controlModeSelect.options).forEach((option) => {
+      option.disabled = !supported.includes(option.value as ControlMode);
+    });
+  }
+  if (!supported.includes(controlMode) && supported.length) {
+    setControlMode(supported[0]);
+  }
+
+  if (capabilities.featuresKnown) {
+    const modes = supported.map((mode) => CONTROL_MODE_LABELS[mode]).join(', ') || 'none';
+    const { minimum, maximum } = capabilities.powerRange;
+    appendLog(`Trainer supports ${modes} (power ${minimum}–${maximum} W)`);
+    warnUnsupportedBlocks();
+  }
+};
+
+/**
+ * Free ride is a flat road in slope mode. Trainers without slope mode fall
+ * back to their lightest resistance, and ERG-only ones to their lowest power.
+ */
+const getFreeRideTarget = (): BlockTarget => {
+  const capabilities = trainerCapabilities;
+  if (!capabilities?.featuresKnown || capabilities.supportedModes.includes('slope')) {
+    return { targetSlopePercent: 0 };
+  }
+  if (capabilities.supportedModes.includes('resistance')) {
+    return { targetResistanceLevel: capabilities.resistanceRange.minimum };
+  }
+  return { targetWatts: capabilities.powerRange.minimum };
+};
+
+const getBlockTarget = (block: SessionBlock): BlockTarget => (block.freeRide ? getFreeRideTarget() : block);
+
+const applyBlockTarget = async (block: SessionBlock): Promise<void> => {
+  const target = getBlockTarget(block);
+  if (typeof target.targetResistanceLevel === 'number') {
+    await window.ergApi.setResistanceLevel(target.targetResistanceLevel);
+  } else if (typeof target.targetSlopePercent === 'number') {
+    await window.ergApi.setSlope({ gradePercent: target.targetSlopePercent });
+  } else {
+    await window.ergApi.setTargetWatts(target.targetWatts ?? 0);
+  }
+};
+
+// Tells the rider up front when the builder holds blocks the trainer can't ride.
+const warnUnsupportedBlocks = (): void => {
+  const capabilities = trainerCapabilities;
+  if (!capabilities?.featuresKnown || !blocks.length) return;
+  const steps = expandBlocks(blocks);
+  const hasSlope = capabilities.supportedModes.includes('slope');
+  const targeted = steps.filter((step) => !step.freeRide);
+  const problems: string[] = [];
+  if (!hasSlope && targeted.some((step) => typeof step.targetSlopePercent === 'number')) {
+    problems.push('slope blocks need slope mode');
+  }
+  if (!capabilities.supportedModes.includes('erg') && targeted.some((step) => typeof step.targetSlopePercent !== 'number')) {
+    problems.push('power blocks need ERG mode');
+  }
+  if (problems.length) {
+    const message = `This trainer can't ride the workout: ${problems.join(', ')}`;
+    setStatus(message);
+    appendLog(message);
+  } else if (!hasSlope && targeted.length < steps.length) {
+    const fallback = capabilities.supportedModes.includes('resistance') ? 'the lightest resistance' : 'the lowest ERG power';
+    appendLog(`No slope mode on this trainer: free ride blocks will use ${fallback}`);
+  }
+};
+
 const updateButtons = (connected: boolean, running: boolean): void => {
   const hasSession = sessionActive || sessionPaused;
   if (startButton) {
@@ -414,21 +1322,392 @@ const updateButtons = (connected: boolean, running: boolean): void => {
 };
 
 const updateBlockUI = (): void => {
-  if (currentBlockIndex >= 0 && blocks[currentBlockIndex]) {
-    const block = blocks[currentBlockIndex];
-    if (currentBlockLabel) {
-      currentBlockLabel.textContent = `Block ${currentBlockIndex + 1} of ${blocks.length} – ${formatSeconds(block.durationSec)} @ ${block.targetWatts} W`;
+  const block = currentBlockIndex >= 0 ? runBlocks[currentBlockIndex] : undefined;
+  if (currentBlockLabel) {
+    const rep = block?.rep ? ` – Rep ${block.rep.index}/${block.rep.count}` : '';
+    currentBlockLabel.textContent = block
+      ? `Block ${currentBlockIndex + 1} of ${runBlocks.length}${rep} – ${formatSeconds(block.durationSec)} @ ${formatBlockTarget(block)}`
+      : '—';
+  }
+  const track = blockProgressBar?.parentElement;
+  if (track) {
+    const ramp = Boolean(block && isRampBlock(block));
+    track.classList.toggle('ramp', ramp);
+    track.style.clipPath = block && ramp ? getRampClipPath(block) : '';
+  }
+};
+
+const getBlockElapsedSec = (block: SessionBlock, now = Date.now()): number => {
+  let elapsedBlockSec = blockElapsedMs / 1000;
+  if (sessionActive && !sessionPaused && blockStartTime) {
+    elapsedBlockSec += (now - blockStartTime) / 1000;
+  }
+  return Math.min(block.durationSec, Math.max(0, elapsedBlockSec));
+};
+
+const getSessionElapsedSec = (now = Date.now()): number => {
+  let elapsedSessionSec = sessionElapsedMs / 1000;
+  if (sessionActive && !sessionPaused && sessionStartTime) {
+    elapsedSessionSec += (now - sessionStartTime) / 1000;
+  }
+  return Math.max(0, elapsedSessionSec);
+};
+
+const CHART_WIDTH = 1000;
+const CHART_HEIGHT = 200;
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Coggan power zones by upper bound in % FTP.
+const POWER_ZONES = [55, 76, 91, 106, 121, 150, Infinity];
+
+const getPowerZoneClass = (percent?: number): string =>
+  percent === undefined ? 'zone-none' : `zone-${POWER_ZONES.findIndex((max) => percent < max) + 1}`;
+
+// Chart height of a block: watts when they can be known, raw % FTP otherwise.
+const getChartLevels = (block: SessionBlock): { start: number; end: number } | undefined => {
+  if (block.freeRide || typeof block.targetSlopePercent === 'number') {
+    return undefined;
+  }
+  const toLevel = (watts?: number, percent?: number): number =>
+    watts ?? (typeof percent === 'number' ? (wattsFromFtp(percent) ?? percent) : 0);
+  const start = toLevel(block.targetWatts, block.targetPercentFtp);
+  const end = isRampBlock(block) ? toLevel(block.rampEndWatts, block.rampEndPercentFtp) : start;
+  return { start, end };
+};
+
+const getChartSteps = (): RunBlock[] => (structuredSession ? runBlocks : expandBlocks(blocks));
+
+const chartY = (level: number): number =>
+  CHART_HEIGHT - (Math.min(level, chartScale.peak) / chartScale.peak) * CHART_HEIGHT;
+
+const createSvgElement = <K extends keyof SVGElementTagNameMap>(
+  name: K,
+  attributes: Record<string, string | number>,
+): SVGElementTagNameMap[K] => {
+  const element = document.createElementNS(SVG_NS, name);
+  Object.entries(attributes).forEach(([key, value]) => element.setAttribute(key, String(value)));
+  return element;
+};
+
+// The ridden power is averaged into at most this many points; when they run
+// out, neighbours merge and each point covers twice the time.
+const POWER_TRACE_POINTS = 600;
+
+const updateChartTrace = (): void => {
+  if (!workoutChartTrace) return;
+  const { totalSec } = chartScale;
+  const points = totalSec
+    ? powerTrace.map(
+        ({ sec, sum, count }) => `${((sec / totalSec) * CHART_WIDTH).toFixed(1)},${chartY(sum / count).toFixed(1)}`,
+      )
+    : [];
+  workoutChartTrace.setAttribute('points', points.join(' '));
+};
+
+const addPowerTracePoint = (elapsedSec: number, watts: number): void => {
+  const sec = Math.floor(elapsedSec / powerTraceStepSec) * powerTraceStepSec;
+  const last = powerTrace[powerTrace.length - 1];
+  if (last && last.sec === sec) {
+    last.sum += watts;
+    last.count += 1;
+  } else {
+    powerTrace.push({ sec, sum: watts, count: 1 });
+  }
+  if (powerTrace.length > POWER_TRACE_POINTS) {
+    powerTraceStepSec *= 2;
+    const merged: typeof powerTrace = [];
+    powerTrace.forEach((point) => {
+      const mergedSec = Math.floor(point.sec / powerTraceStepSec) * powerTraceStepSec;
+      const previous = merged[merged.length - 1];
+      if (previous && previous.sec === mergedSec) {
+        previous.sum += point.sum;
+        previous.count += point.count;
+      } else {
+        merged.push({ ...point, sec: mergedSec });
+      }
+    });
+    powerTrace = merged;
+  }
+  updateChartTrace();
+};
+
+const updateChartCursor = (elapsedSec?: number): void => {
+  if (!workoutChartCursor) return;
+  if (elapsedSec === undefined || !chartScale.totalSec) {
+    workoutChartCursor.setAttribute('visibility', 'hidden');
+    return;
+  }
+  const x = Math.min(CHART_WIDTH, (elapsedSec / chartScale.totalSec) * CHART_WIDTH).toFixed(1);
+  workoutChartCursor.setAttribute('x1', x);
+  workoutChartCursor.setAttribute('x2', x);
+  workoutChartCursor.setAttribute('visibility', 'visible');
+};
+
+/**
+ * Draws the workout profile: one bar per ridden step, as wide as its duration
+ * and coloured by power zone. Outside a ride the bar edges can be dragged.
+ */
+const renderWorkoutChart = (): void => {
+  if (!workoutChart || !workoutChartBars) return;
+
+  const steps = getChartSteps();
+  const totalSec = steps.reduce((acc, step) => acc + step.durationSec, 0);
+  const levels = steps.map(getChartLevels);
+  const peak = Math.max(1, ...levels.map((level) => (level ? Math.max(level.start, level.end) : 0))) * 1.15;
+  chartScale = { totalSec, peak };
+  workoutChart.classList.toggle('empty', !steps.length);
+  workoutChartBars.innerHTML = '';
+
+  let startSec = 0;
+  steps.forEach((step, index) => {
+    const x0 = (startSec / totalSec) * CHART_WIDTH;
+    const x1 = ((startSec + step.durationSec) / totalSec) * CHART_WIDTH;
+    const level = levels[index];
+    const top0 = chartY(level ? level.start : peak * 0.25);
+    const top1 = chartY(level ? level.end : peak * 0.25);
+    const percent = step.targetPercentFtp ?? (level ? percentOfFtp((level.start + level.end) / 2) : undefined);
+    const bar = createSvgElement('polygon', {
+      points: `${x0},${CHART_HEIGHT} ${x0},${top0} ${x1},${top1} ${x1},${CHART_HEIGHT}`,
+      class: `chart-bar ${getPowerZoneClass(level ? percent : undefined)}`,
+    });
+    const title = createSvgElement('title', {});
+    title.textContent = `${formatSeconds(step.durationSec)} @ ${formatBlockTarget(step)}`;
+    bar.appendChild(title);
+    workoutChartBars.appendChild(bar);
+
+    if (!structuredSession) {
+      workoutChartBars.appendChild(
+        createSvgElement('rect', {
+          x: x1 - 5,
+          y: 0,
+          width: 10,
+          height: CHART_HEIGHT,
+          class: 'chart-handle chart-handle-end',
+          'data-edge': 'end',
+          'data-block': step.id,
+        }),
+      );
+      if (level && !isRampBlock(step)) {
+        workoutChartBars.appendChild(
+          createSvgElement('rect', {
+            x: x0,
+            y: top0 - 5,
+            width: Math.max(0, x1 - x0 - 5),
+            height: 10,
+            class: 'chart-handle chart-handle-top',
+            'data-edge': 'top',
+            'data-block': step.id,
+          }),
+        );
+      }
+    }
+    startSec += step.durationSec;
+  });
+  updateChartTrace();
+  updateChartCursor(structuredSession ? getSessionElapsedSec() : undefined);
+};
+
+// Samples closer than this are merged, so the recent buffer always spans ten minutes.
+const LIVE_SAMPLE_SEC = 0.25;
+const LIVE_RECENT_CAPACITY = (10 * 60) / LIVE_SAMPLE_SEC;
+// The whole ride is kept as at most this many averaged buckets; when they run
+// out, neighbours merge and each bucket covers twice the time.
+const LIVE_RIDE_BUCKETS = 900;
+const LIVE_FIELDS: LiveField[] = ['power', 'heartRate', 'cadence', 'speed'];
+
+const getLiveCanvas = (id: string): HTMLCanvasElement | null => document.getElementById(id) as HTMLCanvasElement | null;
+
+const LIVE_CHARTS: { field: LiveField; canvas: HTMLCanvasElement | null; color: string; unit: string }[] = [
+  { field: 'power', canvas: getLiveCanvas('livePowerChart'), color: '#facc15', unit: 'W' },
+  { field: 'heartRate', canvas: getLiveCanvas('liveHeartRateChart'), color: '#f87171', unit: 'bpm' },
+  { field: 'cadence', canvas: getLiveCanvas('liveCadenceChart'), color: '#38bdf8', unit: 'rpm' },
+  { field: 'speed', canvas: getLiveCanvas('liveSpeedChart'), color: '#4ade80', unit: 'km/h' },
+];
+
+const createLiveTotals = (): Record<LiveField, number> => ({ power: 0, heartRate: 0, cadence: 0, speed: 0 });
+
+const getRecentSamples = (): LiveSample[] =>
+  liveRecent.length < LIVE_RECENT_CAPACITY
+    ? liveRecent
+    : [...liveRecent.slice(liveRecentHead), ...liveRecent.slice(0, liveRecentHead)];
+
+const compactRideBuckets = (): void => {
+  liveBucketSec *= 2;
+  const merged: LiveBucket[] = [];
+  liveRide.forEach((bucket) => {
+    const t = Math.floor(bucket.t / liveBucketSec) * liveBucketSec;
+    const last = merged[merged.length - 1];
+    if (last && last.t === t) {
+      LIVE_FIELDS.forEach((field) => {
+        last.sums[field] += bucket.sums[field];
+        last.counts[field] += bucket.counts[field];
+      });
+      last.target = bucket.target ?? last.target;
+    } else {
+      merged.push({ t, sums: { ...bucket.sums }, counts: { ...bucket.counts }, target: bucket.target });
     }
-  } else if (currentBlockLabel) {
-    currentBlockLabel.textContent = '—';
+  });
+  liveRide = merged;
+};
+
+const recordLiveSample = (values: Partial<Record<LiveField, number>>): void => {
+  const t = (Date.now() - liveStartTime) / 1000;
+  const fields = LIVE_FIELDS.filter((field) => typeof values[field] === 'number');
+  if (!fields.length) return;
+
+  const newest = liveRecent.length
+    ? liveRecent[(liveRecentHead + liveRecent.length - 1) % liveRecent.length]
+    : undefined;
+  if (newest && Math.floor(newest.t / LIVE_SAMPLE_SEC) === Math.floor(t / LIVE_SAMPLE_SEC)) {
+    fields.forEach((field) => {
+      newest[field] = values[field];
+    });
+    newest.target = liveTargetWatts;
+  } else {
+    const sample: LiveSample = { t, target: liveTargetWatts };
+    fields.forEach((field) => {
+      sample[field] = values[field];
+    });
+    if (liveRecent.length < LIVE_RECENT_CAPACITY) {
+      liveRecent.push(sample);
+    } else {
+      liveRecent[liveRecentHead] = sample;
+      liveRecentHead = (liveRecentHead + 1) % LIVE_RECENT_CAPACITY;
+    }
+  }
+
+  const bucketT = Math.floor(t / liveBucketSec) * liveBucketSec;
+  let bucket = liveRide[liveRide.length - 1];
+  if (!bucket || bucket.t !== bucketT) {
+    bucket = { t: bucketT, sums: createLiveTotals(), counts: createLiveTotals() };
+    liveRide.push(bucket);
+  }
+  fields.forEach((field) => {
+    bucket.sums[field] += values[field] ?? 0;
+    bucket.counts[field] += 1;
+  });
+  bucket.target = liveTargetWatts;
+  if (liveRide.length > LIVE_RIDE_BUCKETS) {
+    compactRideBuckets();
   }
 };
 
+const getLiveSeries = (): { samples: LiveSample[]; from: number; to: number } => {
+  const now = (Date.now() - liveStartTime) / 1000;
+  const windowValue = liveChartWindowSelect?.value ?? '60';
+  if (windowValue === 'ride') {
+    const samples = liveRide.map((bucket) => {
+      const sample: LiveSample = { t: bucket.t + liveBucketSec / 2, target: bucket.target };
+      LIVE_FIELDS.forEach((field) => {
+        if (bucket.counts[field]) {
+          sample[field] = bucket.sums[field] / bucket.counts[field];
+        }
+      });
+      return sample;
+    });
+    return { samples, from: 0, to: Math.max(now, 60) };
+  }
+  const span = Number(windowValue);
+  return { samples: getRecentSamples().filter((sample) => sample.t >= now - span), from: now - span, to: now };
+};
+
+const drawLiveChart = (
+  chart: (typeof LIVE_CHARTS)[number],
+  { samples, from, to }: { samples: LiveSample[]; from: number; to: number },
+): void => {
+  const { canvas, field } = chart;
+  const context = canvas?.getContext('2d');
+  if (!canvas || !context) return;
+
+  const ratio = window.devicePixelRatio || 1;
+  const width = Math.round(canvas.clientWidth * ratio);
+  const height = Math.round(canvas.clientHeight * ratio);
+  if (!width || !height) return;
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  context.clearRect(0, 0, width, height);
+
+  const values = samples.filter((sample) => typeof sample[field] === 'number');
+  const targets = field === 'power' ? samples.filter((sample) => typeof sample.target === 'number') : [];
+  const highest = Math.max(
+    0,
+    ...values.map((sample) => sample[field] ?? 0),
+    ...targets.map((sample) => sample.target ?? 0),
+  );
+  const peak = Math.max(1, highest * 1.1);
+  const x = (t: number): number => ((t - from) / (to - from)) * width;
+  const y = (value: number): number => height - (value / peak) * height;
+
+  if (targets.length) {
+    context.strokeStyle = 'rgba(248, 250, 252, 0.55)';
+    context.lineWidth = ratio;
+    context.setLineDash([6 * ratio, 4 * ratio]);
+    context.beginPath();
+    targets.forEach((sample, index) => {
+      const targetY = y(sample.target ?? 0);
+      if (index === 0) {
+        context.moveTo(x(sample.t), targetY);
+      } else {
+        // step line: hold the previous target until it changed
+        context.lineTo(x(sample.t), y(targets[index - 1].target ?? 0));
+        context.lineTo(x(sample.t), targetY);
+      }
+    });
+    context.stroke();
+    context.setLineDash([]);
+  }
+
+  if (values.length) {
+    context.strokeStyle = chart.color;
+    context.lineWidth = 1.5 * ratio;
+    context.beginPath();
+    values.forEach((sample, index) => {
+      const pointY = y(sample[field] ?? 0);
+      if (index === 0) {
+        context.moveTo(x(sample.t), pointY);
+      } else {
+        context.lineTo(x(sample.t), pointY);
+      }
+    });
+    context.stroke();
+  }
+
+  context.fillStyle = 'rgba(248, 250, 252, 0.7)';
+  context.font = `${11 * ratio}px sans-serif`;
+  context.fillText(highest ? `max ${Math.round(highest)} ${chart.unit}` : '—', 6 * ratio, 14 * ratio);
+};
+
+// Draws at most once per frame however fast telemetry arrives.
+const scheduleLiveChartDraw = (): void => {
+  if (liveDrawPending) return;
+  liveDrawPending = true;
+  window.requestAnimationFrame(() => {
+    liveDrawPending = false;
+    const series = getLiveSeries();
+    LIVE_CHARTS.forEach((chart) => drawLiveChart(chart, series));
+  });
+};
+
+function resetLiveCharts(): void {
+  liveStartTime = Date.now();
+  liveRecent = [];
+  liveRecentHead = 0;
+  liveRide = [];
+  liveBucketSec = 1;
+  scheduleLiveChartDraw();
+}
+
+const findBuilderBlock = (blockId: number): SessionBlock | undefined =>
+  blocks.flatMap((item) => (isRepeatGroup(item) ? item.children : [item])).find((block) => block.id === blockId);
+
 const updateProgress = (): void => {
   const totalDurationSec = getTotalDurationSec();
-  const activeBlock = currentBlockIndex >= 0 ? blocks[currentBlockIndex] : undefined;
+  const activeBlock = currentBlockIndex >= 0 ? runBlocks[currentBlockIndex] : undefined;
 
   if (!structuredSession || !activeBlock || totalDurationSec === 0) {
+    updateChartCursor(undefined);
     if (sessionProgressBar) sessionProgressBar.style.width = '0%';
     if (blockProgressBar) blockProgressBar.style.width = '0%';
     if (currentBlockRemaining) currentBlockRemaining.textContent = '—';
@@ -437,11 +1716,8 @@ const updateProgress = (): void => {
   }
 
   const now = Date.now();
-  let elapsedSessionSec = sessionElapsedMs / 1000;
-  if (sessionActive && !sessionPaused && sessionStartTime) {
-    elapsedSessionSec += (now - sessionStartTime) / 1000;
-  }
-  elapsedSessionSec = Math.min(totalDurationSec, Math.max(0, elapsedSessionSec));
+  const elapsedSessionSec = Math.min(totalDurationSec, getSessionElapsedSec(now));
+  updateChartCursor(elapsedSessionSec);
 
   if (sessionProgressBar) {
     const sessionPercent = Math.min(100, (elapsedSessionSec / totalDurationSec) * 100);
@@ -451,11 +1727,7 @@ const updateProgress = (): void => {
     sessionRemainingLabel.textContent = formatSeconds(Math.max(0, totalDurationSec - elapsedSessionSec));
   }
 
-  let elapsedBlockSec = blockElapsedMs / 1000;
-  if (sessionActive && !sessionPaused && blockStartTime) {
-    elapsedBlockSec += (now - blockStartTime) / 1000;
-  }
-  elapsedBlockSec = Math.min(activeBlock.durationSec, Math.max(0, elapsedBlockSec));
+  const elapsedBlockSec = getBlockElapsedSec(activeBlock, now);
 
   if (blockProgressBar) {
     const blockPercent = Math.min(100, (elapsedBlockSec / activeBlock.durationSec) * 100);
@@ -466,6 +1738,49 @@ const updateProgress = (): void => {
   }
 };
 
+// ERG trainers smooth target changes over a couple of seconds, so writing
+// more often than this only queues up control point traffic.
+const RAMP_UPDATE_MS = 2000;
+
+const updateRampTarget = (): void => {
+  const block = currentBlockIndex >= 0 ? runBlocks[currentBlockIndex] : undefined;
+  if (!structuredSession || !sessionActive || sessionPaused || !block || !isRampBlock(block)) {
+    return;
+  }
+  const now = Date.now();
+  const watts = getBlockTargetWatts(block, getBlockElapsedSec(block, now));
+  if (lastRampWrite && (lastRampWrite.watts === watts || now - lastRampWrite.at < RAMP_UPDATE_MS)) {
+    return;
+  }
+  lastRampWrite = { watts, at: now };
+  updateTargetLabel(watts);
+  void window.ergApi.setTargetWatts(watts).catch((error: unknown) => {
+    console.error(error);
+    setStatus(`Failed to set target: ${(error as Error).message}`);
+  });
+};
+
+const announceCues = (): void => {
+  const block = currentBlockIndex >= 0 ? runBlocks[currentBlockIndex] : undefined;
+  if (!structuredSession || !sessionActive || sessionPaused || !block?.cues) {
+    return;
+  }
+  const elapsedSec = getBlockElapsedSec(block);
+  const cues = [...block.cues].sort((a, b) => a.offsetSeconds - b.offsetSeconds);
+  while (nextCueIndex < cues.length && cues[nextCueIndex].offsetSeconds <= elapsedSec) {
+    const { message } = cues[nextCueIndex];
+    setStatus(message);
+    appendLog(`Cue: ${message}`);
+    nextCueIndex += 1;
+  }
+};
+
+const tickStructuredSession = (): void => {
+  updateRampTarget();
+  announceCues();
+  updateProgress();
+};
+
 const clearTimers = (): void => {
   if (blockTimer) {
     clearTimeout(blockTimer);
@@ -479,7 +1794,7 @@ const clearTimers = (): void => {
 
 function advanceToNextBlock(): void {
   const nextIndex = currentBlockIndex + 1;
-  if (nextIndex < blocks.length) {
+  if (nextIndex < runBlocks.length) {
     activateBlock(nextIndex);
   } else {
     endStructuredSession('Structured session complete');
@@ -517,7 +1832,7 @@ const endStructuredSession = (reason?: string): void => {
 };
 
 const activateBlock = (index: number): void => {
-  if (!structuredSession || !blocks[index]) return;
+  if (!structuredSession || !runBlocks[index]) return;
 
   sessionPaused = false;
   currentBlockIndex = index;
@@ -530,22 +1845,46 @@ const activateBlock = (index: number): void => {
     blockStats[index] = createMetricStats();
   }
 
-  const block = blocks[index];
-  void window.ergApi.setTargetWatts(block.targetWatts).catch((error: unknown) => {
+  const block = runBlocks[index];
+  const rep = block.rep ? ` (rep ${block.rep.index}/${block.rep.count})` : '';
+  lastRampWrite = { watts: block.targetWatts ?? 0, at: blockStartTime };
+  nextCueIndex = 0;
+  void window.ergApi
+    .markBlock({
+      blockId: block.id.toString(),
+      label: `Block ${index + 1}${rep}`,
+      type: block.freeRide ? 'freeRide' : isRampBlock(block) ? 'ramp' : 'target',
+      targetPowerWatts: block.targetWatts,
+      targetPowerEndWatts: block.rampEndWatts,
+      targetSlopePercent: block.targetSlopePercent,
+      durationSeconds: block.durationSec,
+    })
+    .catch((error: unknown) => {
+      console.error(error);
+    });
+  void applyBlockTarget(block).catch((error: unknown) => {
     console.error(error);
     setStatus(`Failed to set target: ${(error as Error).message}`);
     appendLog(`Failed to set target: ${(error as Error).message}`);
   });
-  updateTargetLabel(block.targetWatts);
-  appendLog(`Block ${index + 1}/${blocks.length}: ${formatSeconds(block.durationSec)} @ ${block.targetWatts} W`);
+  const target = getBlockTarget(block);
+  if (typeof target.targetResistanceLevel === 'number') {
+    updateResistanceLabel(target.targetResistanceLevel);
+  } else if (typeof target.targetSlopePercent === 'number') {
+    updateSlopeLabel(target.targetSlopePercent);
+  } else {
+    updateTargetLabel(target.targetWatts ?? 0);
+  }
+  appendLog(`Block ${index + 1}/${runBlocks.length}${rep}: ${formatSeconds(block.durationSec)} @ ${formatBlockTarget(block)}`);
 
   scheduleBlockTimer(block.durationSec * 1000);
 
   updateProgress();
 };
 
-const startStructuredSession = (): void => {
-  if (!blocks.length) return;
+const startStructuredSession = (steps: RunBlock[]): void => {
+  runBlocks = steps;
+  if (!runBlocks.length) return;
 
   clearTimers();
   structuredSession = true;
@@ -555,58 +1894,348 @@ const startStructuredSession = (): void => {
   sessionElapsedMs = 0;
   blockElapsedMs = 0;
   currentBlockIndex = -1;
+  powerTrace = [];
+  powerTraceStepSec = 1;
   resetStats();
 
-  if (progressInterval) {
-    clearInterval(progressInterval);
+  if (progressInterval) {
+    clearInterval(progressInterval);
+  }
+  progressInterval = setInterval(tickStructuredSession, 1000);
+
+  activateBlock(0);
+};
+
+const handleBuilderUpdate = (): void => {
+  renderBlocks();
+  updateProgress();
+};
+
+const showLoadedWorkout = (workout: Workout | null): void => {
+  loadedWorkout = workout ? { id: workout.id, label: workout.label } : null;
+  if (workoutLabelInput) workoutLabelInput.value = workout?.label ?? '';
+  if (workoutTagsInput) workoutTagsInput.value = workout?.tags?.join(', ') ?? '';
+  renderWorkoutList();
+};
+
+const loadIntoBuilder = (workout: Workout): void => {
+  blocks = workout.blocks.map(toBuilderItem);
+  showLoadedWorkout(workout);
+  handleBuilderUpdate();
+  warnUnsupportedBlocks();
+};
+
+addBlockButton?.addEventListener('click', () => {
+  if (structuredSession) {
+    setStatus('Stop the session to modify blocks.');
+    return;
+  }
+
+  const durationMinutes = Number(blockDurationInput?.value ?? 0);
+  const isSlope = blockTargetKindSelect?.value === 'slope';
+  const isRamp = blockTargetKindSelect?.value === 'ramp';
+  const isPercentFtp = blockPowerUnitSelect?.value === 'ftp';
+  const targetWatts = Number(blockWattsInput?.value ?? 0);
+  const rampEndWatts = Number(blockRampEndInput?.value ?? 0);
+  const targetSlope = Number(blockSlopeInput?.value ?? 0);
+
+  if (!Number.isFinite(durationMinutes) || durationMinutes <= 0) {
+    setStatus('Enter a duration greater than zero.');
+    return;
+  }
+  if (isSlope && (!Number.isFinite(targetSlope) || Math.abs(targetSlope) > 20)) {
+    setStatus('Enter a slope between -20 % and 20 %.');
+    return;
+  }
+  if (!isSlope && (!Number.isFinite(targetWatts) || targetWatts < 0)) {
+    setStatus(isPercentFtp ? 'Enter a valid percentage of FTP.' : 'Enter a valid wattage.');
+    return;
+  }
+  if (isRamp && (!Number.isFinite(rampEndWatts) || rampEndWatts < 0)) {
+    setStatus(isPercentFtp ? 'Enter a valid end percentage of FTP for the ramp.' : 'Enter a valid end wattage for the ramp.');
+    return;
+  }
+
+  const block: SessionBlock = {
+    id: ++blockCounter,
+    durationSec: Math.max(1, Math.round(durationMinutes * 60)),
+  };
+  if (isSlope) {
+    block.targetSlopePercent = Math.round(targetSlope * 10) / 10;
+  } else if (isPercentFtp) {
+    block.targetPercentFtp = Math.round(targetWatts);
+    if (isRamp) {
+      block.rampEndPercentFtp = Math.round(rampEndWatts);
+    }
+  } else {
+    block.targetWatts = Math.round(targetWatts);
+    if (isRamp) {
+      block.rampEndWatts = Math.round(rampEndWatts);
+    }
+  }
+  blocks.push(block);
+
+  appendLog(`Added block: ${durationMinutes} min @ ${formatBlockTarget(block)}`);
+  handleBuilderUpdate();
+});
+
+const updateBuilderFields = (): void => {
+  const isSlope = blockTargetKindSelect?.value === 'slope';
+  const isRamp = blockTargetKindSelect?.value === 'ramp';
+  const unit = blockPowerUnitSelect?.value === 'ftp' ? '(% FTP)' : 'watts';
+  if (blockPowerUnitField) blockPowerUnitField.hidden = isSlope;
+  if (blockWattsField) blockWattsField.hidden = isSlope;
+  if (blockWattsLabel) blockWattsLabel.textContent = `${isRamp ? 'Start' : 'Target'} ${unit}`;
+  if (blockRampEndField) blockRampEndField.hidden = !isRamp;
+  if (blockRampEndLabel) blockRampEndLabel.textContent = `End ${unit}`;
+  if (blockSlopeField) blockSlopeField.hidden = !isSlope;
+};
+
+blockTargetKindSelect?.addEventListener('change', updateBuilderFields);
+
+blockPowerUnitSelect?.addEventListener('change', () => {
+  const toPercent = blockPowerUnitSelect.value === 'ftp';
+  // carry the numbers across so switching units keeps the same effort
+  [blockWattsInput, blockRampEndInput].forEach((input) => {
+    if (!input) return;
+    const value = Number(input.value);
+    const converted = toPercent ? percentOfFtp(value) : wattsFromFtp(value);
+    if (Number.isFinite(value) && converted !== undefined) {
+      input.value = String(converted);
+    }
+  });
+  updateBuilderFields();
+});
+
+const readOptionalNumber = (input: HTMLInputElement | null): number | undefined => {
+  const raw = input?.value.trim() ?? '';
+  if (!raw) return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) && value > 0 ? value : Number.NaN;
+};
+
+const applyRiderProfile = (profile: RiderProfile): void => {
+  riderProfile = profile;
+  if (profileFtpInput) profileFtpInput.value = profile.ftpWatts ? String(profile.ftpWatts) : '';
+  if (profileWeightInput) profileWeightInput.value = profile.weightKg ? String(profile.weightKg) : '';
+  if (profileMaxHeartRateInput) profileMaxHeartRateInput.value = profile.maxHeartRateBpm ? String(profile.maxHeartRateBpm) : '';
+  if (profileLthrInput) profileLthrInput.value = profile.lactateThresholdHeartRateBpm ? String(profile.lactateThresholdHeartRateBpm) : '';
+  if (profileSummary) {
+    if (!profile.ftpWatts) {
+      profileSummary.textContent = 'No FTP set: blocks can only use absolute watts.';
+    } else {
+      const perKg = profile.weightKg ? ` · ${(profile.ftpWatts / profile.weightKg).toFixed(2)} W/kg` : '';
+      profileSummary.textContent = `FTP ${profile.ftpWatts} W${perKg}`;
+    }
+  }
+  renderBlocks();
+  updateBlockUI();
+};
+
+saveProfileButton?.addEventListener('click', async () => {
+  const profile = {
+    ftpWatts: readOptionalNumber(profileFtpInput),
+    weightKg: readOptionalNumber(profileWeightInput),
+    maxHeartRateBpm: readOptionalNumber(profileMaxHeartRateInput),
+    lactateThresholdHeartRateBpm: readOptionalNumber(profileLthrInput),
+  };
+  if (Object.values(profile).some((value) => Number.isNaN(value))) {
+    setStatus('Profile values must be positive numbers.');
+    return;
+  }
+  if (typeof profile.ftpWatts === 'number') profile.ftpWatts = Math.round(profile.ftpWatts);
+  try {
+    applyRiderProfile(await window.ergApi.saveRiderProfile(profile));
+    appendLog('Rider profile saved');
+    // estimated TSS and IF of watt-based workouts depend on the FTP
+    void loadWorkoutLibrary();
+  } catch (error) {
+    console.error(error);
+    setStatus(`Failed to save profile: ${(error as Error).message}`);
+    appendLog(`Failed to save profile: ${(error as Error).message}`);
+  }
+});
+
+controlModeSelect?.addEventListener('change', () => {
+  const value = controlModeSelect.value;
+  setControlMode(value === 'slope' || value === 'resistance' ? value : 'erg');
+});
+
+powerSourceSelect?.addEventListener('change', async () => {
+  const source = powerSourceSelect.value === 'powerMeter' ? 'powerMeter' : 'trainer';
+  try {
+    await window.ergApi.setPowerSource(source);
+  } catch (error) {
+    console.error(error);
+    setStatus(`Failed to change power source: ${(error as Error).message}`);
+    appendLog(`Failed to change power source: ${(error as Error).message}`);
+  }
+});
+
+wheelCircumferenceInput?.addEventListener('change', async () => {
+  const millimeters = Number(wheelCircumferenceInput.value);
+  if (!Number.isFinite(millimeters) || millimeters <= 0) return;
+  try {
+    const applied = await window.ergApi.setWheelCircumference(millimeters);
+    wheelCircumferenceInput.value = String(applied);
+  } catch (error) {
+    console.error(error);
+    setStatus(`Failed to set wheel circumference: ${(error as Error).message}`);
+    appendLog(`Failed to set wheel circumference: ${(error as Error).message}`);
+  }
+});
+
+powerMatchSelect?.addEventListener('change', async () => {
+  const enabled = powerMatchSelect.value === 'on';
+  try {
+    await window.ergApi.setPowerMatch({ enabled });
+    appendLog(enabled ? 'Power match enabled' : 'Power match disabled');
+  } catch (error) {
+    console.error(error);
+    setStatus(`Failed to change power match: ${(error as Error).message}`);
+    appendLog(`Failed to change power match: ${(error as Error).message}`);
   }
-  progressInterval = setInterval(updateProgress, 1000);
+});
 
-  activateBlock(0);
-};
+targetResistanceInput?.addEventListener('input', () => {
+  if (targetResistanceValue) {
+    targetResistanceValue.textContent = targetResistanceInput.value;
+  }
+});
 
-const handleBuilderUpdate = (): void => {
-  renderBlocks();
-  updateProgress();
-};
+targetResistanceInput?.addEventListener('change', async () => {
+  const level = Number(targetResistanceInput.value);
+  updateResistanceLabel(level);
+  if (!sessionActive || sessionPaused) return;
+  try {
+    await window.ergApi.setResistanceLevel(level);
+    appendLog(`Resistance set to level ${level}`);
+  } catch (error) {
+    console.error(error);
+    setStatus(`Failed to set resistance: ${(error as Error).message}`);
+    appendLog(`Failed to set resistance: ${(error as Error).message}`);
+  }
+});
 
-addBlockButton?.addEventListener('click', () => {
+clearBlocksButton?.addEventListener('click', () => {
   if (structuredSession) {
     setStatus('Stop the session to modify blocks.');
     return;
   }
+  if (!blocks.length) return;
+  blocks = [];
+  showLoadedWorkout(null);
+  appendLog('Cleared all session blocks');
+  handleBuilderUpdate();
+});
 
-  const durationMinutes = Number(blockDurationInput?.value ?? 0);
-  const targetWatts = Number(blockWattsInput?.value ?? 0);
+importWorkoutButton?.addEventListener('click', async () => {
+  if (structuredSession) {
+    setStatus('Stop the session to modify blocks.');
+    return;
+  }
+  try {
+    const workout: Workout | undefined = await window.ergApi.importWorkout();
+    if (!workout) return;
+    loadIntoBuilder(workout);
+    setStatus(`Imported ${workout.label}`);
+    appendLog(`Imported workout "${workout.label}" (${blocks.length} blocks, ${formatSeconds(getTotalDurationSec())})`);
+    void loadWorkoutLibrary();
+  } catch (error) {
+    console.error(error);
+    setStatus(`Failed to import workout: ${(error as Error).message}`);
+    appendLog(`Failed to import workout: ${(error as Error).message}`);
+  }
+});
 
-  if (!Number.isFinite(durationMinutes) || durationMinutes <= 0) {
-    setStatus('Enter a duration greater than zero.');
+exportWorkoutButton?.addEventListener('click', async () => {
+  if (!blocks.length) {
+    setStatus('Add blocks before exporting.');
+    return;
+  }
+  const format = (exportFormatSelect?.value ?? 'zwo') as WorkoutFileFormat;
+  try {
+    const filePath = await window.ergApi.exportWorkout(
+      {
+        label: workoutLabelInput?.value.trim() || loadedWorkout?.label || 'Open Trainer workout',
+        tags: parseTags(workoutTagsInput?.value ?? ''),
+        blocks: blocks.map(toWorkoutBlock),
+      },
+      format,
+    );
+    if (!filePath) return;
+    setStatus(`Workout exported to ${filePath}`);
+    appendLog(`Exported workout to ${filePath}`);
+  } catch (error) {
+    console.error(error);
+    setStatus(`Failed to export workout: ${(error as Error).message}`);
+    appendLog(`Failed to export workout: ${(error as Error).message}`);
+  }
+});
+
+saveWorkoutButton?.addEventListener('click', async () => {
+  const label = workoutLabelInput?.value.trim() ?? '';
+  if (!blocks.length) {
+    setStatus('Add blocks before saving.');
     return;
   }
-  if (!Number.isFinite(targetWatts) || targetWatts < 0) {
-    setStatus('Enter a valid wattage.');
+  if (!label) {
+    setStatus('Name the workout before saving.');
     return;
   }
+  const input = { label, tags: parseTags(workoutTagsInput?.value ?? ''), blocks: blocks.map(toWorkoutBlock) };
+  const updating = loadedWorkout;
+  try {
+    const saved: Workout = updating
+      ? await window.ergApi.updateWorkout(updating.id, input)
+      : await window.ergApi.createWorkout(input);
+    showLoadedWorkout(saved);
+    setStatus(`Saved ${saved.label}`);
+    appendLog(`${updating ? 'Updated' : 'Saved'} workout "${saved.label}"`);
+    await loadWorkoutLibrary();
+  } catch (error) {
+    console.error(error);
+    setStatus(`Failed to save workout: ${(error as Error).message}`);
+    appendLog(`Failed to save workout: ${(error as Error).message}`);
+  }
+});
 
-  blocks.push({
-    id: ++blockCounter,
-    durationSec: Math.max(1, Math.round(durationMinutes * 60)),
-    targetWatts: Math.round(targetWatts),
-  });
+workoutSearchInput?.addEventListener('input', renderWorkoutList);
+workoutTagFilterSelect?.addEventListener('change', renderWorkoutList);
 
-  appendLog(`Added block: ${durationMinutes} min @ ${Math.round(targetWatts)} W`);
-  handleBuilderUpdate();
-});
+workoutListElement?.addEventListener('click', async (event) => {
+  const target = (event.target as HTMLElement).closest('button[data-workout-action]') as HTMLButtonElement | null;
+  const workout = libraryWorkouts.find((entry) => entry.id === target?.dataset.workoutId);
+  if (!target || !workout) return;
 
-clearBlocksButton?.addEventListener('click', () => {
-  if (structuredSession) {
-    setStatus('Stop the session to modify blocks.');
-    return;
+  const action = target.dataset.workoutAction;
+  try {
+    if (action === 'load') {
+      if (structuredSession) {
+        setStatus('Stop the session to modify blocks.');
+        return;
+      }
+      loadIntoBuilder(workout);
+      appendLog(`Loaded workout "${workout.label}" (${formatSeconds(getTotalDurationSec())})`);
+    } else if (action === 'duplicate') {
+      const copy = await window.ergApi.duplicateWorkout(workout.id);
+      appendLog(`Duplicated workout "${workout.label}" as "${copy.label}"`);
+      await loadWorkoutLibrary();
+    } else if (action === 'delete') {
+      if (!window.confirm(`Delete workout "${workout.label}"?`)) return;
+      await window.ergApi.deleteWorkout(workout.id);
+      if (loadedWorkout?.id === workout.id) {
+        // keep the blocks in the builder; saving them creates a new workout
+        loadedWorkout = null;
+      }
+      appendLog(`Deleted workout "${workout.label}"`);
+      await loadWorkoutLibrary();
+    }
+  } catch (error) {
+    console.error(error);
+    setStatus(`Workout library action failed: ${(error as Error).message}`);
+    appendLog(`Workout library action failed: ${(error as Error).message}`);
   }
-  if (!blocks.length) return;
-  blocks = [];
-  appendLog('Cleared all session blocks');
-  handleBuilderUpdate();
 });
 
 blockListElement?.addEventListener('click', (event) => {
@@ -625,6 +2254,126 @@ blockListElement?.addEventListener('click', (event) => {
   handleBuilderUpdate();
 });
 
+blockListElement?.addEventListener('click', (event) => {
+  const target = (event.target as HTMLElement).closest('button[data-repeat-delta], button[data-ungroup]') as HTMLButtonElement | null;
+  if (!target) return;
+
+  if (structuredSession) {
+    setStatus('Stop the session to modify blocks.');
+    return;
+  }
+
+  const id = Number(target.dataset.group ?? target.dataset.ungroup);
+  const index = getBlockIndexById(id);
+  const group = blocks[index];
+  if (!group || !isRepeatGroup(group)) return;
+
+  if (target.dataset.ungroup) {
+    // set cues move onto the child they fall in; those in later reps go with the reps
+    let startSec = 0;
+    let movedCues = 0;
+    const children = group.children.map((child) => {
+      const endSec = startSec + child.durationSec;
+      const cues = (group.cues ?? [])
+        .filter((cue) => cue.offsetSeconds >= startSec && cue.offsetSeconds < endSec)
+        .map((cue) => ({ ...cue, offsetSeconds: cue.offsetSeconds - startSec }));
+      startSec = endSec;
+      movedCues += cues.length;
+      return cues.length ? { ...child, cues: [...(child.cues ?? []), ...cues] } : child;
+    });
+    blocks.splice(index, 1, ...children);
+    appendLog(`Ungrouped repeat set into ${children.length} blocks`);
+    const droppedCues = (group.cues?.length ?? 0) - movedCues;
+    if (droppedCues > 0) {
+      setStatus(`Ungrouping dropped ${droppedCues} cue${droppedCues === 1 ? '' : 's'} from later repeats.`);
+      appendLog(`Dropped ${droppedCues} cue${droppedCues === 1 ? '' : 's'} timed after the first repeat`);
+    }
+  } else {
+    group.repeat = Math.max(2, group.repeat + Number(target.dataset.repeatDelta));
+  }
+  handleBuilderUpdate();
+});
+
+groupBlocksButton?.addEventListener('click', () => {
+  if (structuredSession) {
+    setStatus('Stop the session to modify blocks.');
+    return;
+  }
+
+  const count = Math.round(Number(repeatBlockCountInput?.value ?? 0));
+  const repeat = Math.round(Number(repeatCountInput?.value ?? 0));
+  if (!Number.isFinite(count) || count < 1 || count > blocks.length) {
+    setStatus(`Enter a number of blocks between 1 and ${Math.max(1, blocks.length)}.`);
+    return;
+  }
+  if (!Number.isFinite(repeat) || repeat < 2) {
+    setStatus('Repeat a set at least twice.');
+    return;
+  }
+  const children = blocks.slice(-count);
+  if (children.some(isRepeatGroup)) {
+    setStatus('Repeat sets cannot contain other repeat sets.');
+    return;
+  }
+
+  const group: RepeatGroup = { id: ++blockCounter, repeat, children: children as SessionBlock[] };
+  blocks = [...blocks.slice(0, -count), group];
+  appendLog(`Grouped last ${count} blocks into ${repeat}× repeat set`);
+  handleBuilderUpdate();
+});
+
+workoutChart?.addEventListener('pointerdown', (event) => {
+  const handle = (event.target as Element).closest('[data-edge]');
+  const block = handle ? findBuilderBlock(Number(handle.getAttribute('data-block'))) : undefined;
+  if (!handle || !block || structuredSession) return;
+
+  const bounds = workoutChart.getBoundingClientRect();
+  const levels = getChartLevels(block);
+  chartDrag = {
+    block,
+    edge: handle.getAttribute('data-edge') === 'top' ? 'top' : 'end',
+    startX: event.clientX,
+    startY: event.clientY,
+    durationSec: block.durationSec,
+    level: levels?.start ?? 0,
+    secPerPx: chartScale.totalSec / bounds.width,
+    levelPerPx: chartScale.peak / bounds.height,
+  };
+  workoutChart.setPointerCapture(event.pointerId);
+  event.preventDefault();
+});
+
+workoutChart?.addEventListener('pointermove', (event) => {
+  if (!chartDrag) return;
+  const { block } = chartDrag;
+  if (chartDrag.edge === 'end') {
+    const seconds = chartDrag.durationSec + (event.clientX - chartDrag.startX) * chartDrag.secPerPx;
+    block.durationSec = Math.max(10, Math.round(seconds / 5) * 5);
+  } else {
+    const level = Math.max(0, chartDrag.level - (event.clientY - chartDrag.startY) * chartDrag.levelPerPx);
+    if (typeof block.targetPercentFtp === 'number') {
+      const ftp = riderProfile.ftpWatts;
+      block.targetPercentFtp = Math.round(ftp ? (level / ftp) * 100 : level);
+    } else {
+      block.targetWatts = Math.round(level / 5) * 5;
+    }
+  }
+  handleBuilderUpdate();
+});
+
+const endChartDrag = (): void => {
+  if (!chartDrag) return;
+  const { block } = chartDrag;
+  chartDrag = null;
+  appendLog(`Adjusted block: ${formatSeconds(block.durationSec)} @ ${formatBlockTarget(block)}`);
+};
+
+liveChartWindowSelect?.addEventListener('change', scheduleLiveChartDraw);
+window.addEventListener('resize', scheduleLiveChartDraw);
+
+workoutChart?.addEventListener('pointerup', endChartDrag);
+workoutChart?.addEventListener('pointercancel', endChartDrag);
+
 blockListElement?.addEventListener('dragstart', (event) => {
   if (structuredSession) {
     event.preventDefault();
@@ -711,30 +2460,57 @@ deviceListElement?.addEventListener('click', async (event) => {
   const action = target.dataset.deviceAction;
   if (!deviceId || !action) return;
 
-  const device = discoveredDevices.find((entry) => entry.id === deviceId);
-  const friendlyLabel = device?.label ?? deviceId;
+  const device =
+    discoveredDevices.find((entry) => entry.id === deviceId) ?? savedDevices.find((entry) => entry.id === deviceId);
+  const friendlyLabel = device ? getDeviceLabel(device) : deviceId;
+
+  if (action === 'forget') {
+    target.disabled = true;
+    try {
+      await window.ergApi.forgetDevice(deviceId);
+      appendLog(`Forgot ${friendlyLabel}`);
+    } catch (error) {
+      console.error(error);
+      setStatus(`Failed to forget device: ${(error as Error).message}`);
+      appendLog(`Failed to forget ${friendlyLabel}: ${(error as Error).message}`);
+      target.disabled = false;
+    }
+    return;
+  }
+
   const originalText = target.textContent ?? '';
-  const deviceKind = (target.dataset.deviceKind as DiscoveredDevice['kind'] | undefined) ?? device?.kind;
-  const isHeartRate = deviceKind === 'heart-rate';
+  const deviceKind = (target.dataset.deviceKind as DeviceSnapshot['kind'] | undefined) ?? device?.kind;
+  // heart rate monitors and power meters connect alongside the trainer
+  const accessoryName =
+    deviceKind === 'heartRateMonitor'
+      ? 'heart rate monitor'
+      : deviceKind === 'powerMeter'
+        ? 'power meter'
+        : deviceKind === 'cadenceSensor'
+          ? 'speed/cadence sensor'
+          : null;
 
   target.disabled = true;
 
   if (action === 'connect') {
-    target.textContent = isHeartRate ? 'Pairing…' : 'Connecting…';
-    if (!isHeartRate) {
+    target.textContent = accessoryName ? 'Pairing…' : 'Connecting…';
+    if (!accessoryName) {
       setConnectionState('Scanning', 'scanning');
       setStatus(`Connecting to ${friendlyLabel}…`);
       appendLog(`Connecting to ${friendlyLabel}`);
     } else {
-      setStatus(`Connecting to heart rate monitor (${friendlyLabel})…`);
-      appendLog(`Connecting to heart rate monitor (${friendlyLabel})`);
+      setStatus(`Connecting to ${accessoryName} (${friendlyLabel})…`);
+      appendLog(`Connecting to ${accessoryName} (${friendlyLabel})`);
     }
     try {
-      const connectionLabel = await window.ergApi.connect({ deviceId, deviceKind: isHeartRate ? 'heart-rate' : 'trainer' });
+      const connectionLabel = await window.ergApi.connect({
+        deviceId,
+        deviceKind: deviceKind ?? 'trainer',
+      });
       const labelText = (connectionLabel && connectionLabel.trim()) || friendlyLabel;
-      if (isHeartRate) {
-        setStatus(`Heart rate connected (${labelText}).`);
-        appendLog(`Connected to heart rate monitor (${labelText})`);
+      if (accessoryName) {
+        setStatus(`${accessoryName[0].toUpperCase()}${accessoryName.slice(1)} connected (${labelText}).`);
+        appendLog(`Connected to ${accessoryName} (${labelText})`);
       } else {
         setStatus(`Connected. Control acquired (${labelText}).`);
         setConnectionState('Connected', 'connected');
@@ -746,9 +2522,9 @@ deviceListElement?.addEventListener('click', async (event) => {
     } catch (error) {
       console.error(error);
       const message = (error as Error).message;
-      if (isHeartRate) {
-        setStatus(`Failed to connect heart rate monitor: ${message}`);
-        appendLog(`Heart rate connection failed: ${message}`);
+      if (accessoryName) {
+        setStatus(`Failed to connect ${accessoryName}: ${message}`);
+        appendLog(`${accessoryName[0].toUpperCase()}${accessoryName.slice(1)} connection failed: ${message}`);
       } else {
         setStatus(`Failed to connect: ${message}`);
         setConnectionState('Idle', 'idle');
@@ -757,16 +2533,16 @@ deviceListElement?.addEventListener('click', async (event) => {
     }
   } else if (action === 'disconnect') {
     target.textContent = 'Disconnecting…';
-    if (isHeartRate) {
-      setStatus('Disconnecting heart rate monitor…');
-      appendLog('Disconnecting from heart rate monitor');
+    if (accessoryName) {
+      setStatus(`Disconnecting ${accessoryName}…`);
+      appendLog(`Disconnecting from ${accessoryName}`);
     } else {
       setStatus('Disconnecting…');
       appendLog('Disconnecting from trainer');
     }
     try {
-      if (isHeartRate) {
-        await window.ergApi.disconnect({ deviceId, deviceKind: 'heart-rate' });
+      if (deviceKind && deviceKind !== 'trainer') {
+        await window.ergApi.disconnect({ deviceId, deviceKind });
       } else {
         await window.ergApi.disconnect();
       }
@@ -776,9 +2552,9 @@ deviceListElement?.addEventListener('click', async (event) => {
     } catch (error) {
       console.error(error);
       const message = (error as Error).message;
-      if (isHeartRate) {
-        setStatus(`Failed to disconnect heart rate monitor: ${message}`);
-        appendLog(`Failed to disconnect heart rate monitor: ${message}`);
+      if (accessoryName) {
+        setStatus(`Failed to disconnect ${accessoryName}: ${message}`);
+        appendLog(`Failed to disconnect ${accessoryName}: ${message}`);
       } else {
         setStatus(`Failed to disconnect: ${message}`);
         appendLog(`Failed to disconnect: ${message}`);
@@ -790,6 +2566,46 @@ deviceListElement?.addEventListener('click', async (event) => {
   target.disabled = false;
 });
 
+sessionListElement?.addEventListener('click', async (event) => {
+  const target = (event.target as HTMLElement).closest('button[data-session-action]') as HTMLButtonElement | null;
+  if (!target) return;
+
+  const action = target.dataset.sessionAction;
+  try {
+    if (action === 'export' && target.dataset.sessionId) {
+      target.disabled = true;
+      const job = await window.ergApi.exportFit(target.dataset.sessionId);
+      trackFitJob(job);
+      renderSessionList();
+    } else if (action === 'open' && target.dataset.jobId) {
+      await window.ergApi.revealFitExport(target.dataset.jobId);
+    }
+  } catch (error) {
+    console.error(error);
+    target.disabled = false;
+    setStatus(`FIT export failed: ${(error as Error).message}`);
+    appendLog(`FIT export failed: ${(error as Error).message}`);
+  }
+});
+
+deviceListElement?.addEventListener('change', async (event) => {
+  const toggle = event.target as HTMLInputElement;
+  const deviceId = toggle.dataset.deviceAuto;
+  if (!deviceId) return;
+
+  const saved = savedDevices.find((entry) => entry.id === deviceId);
+  const label = saved ? getDeviceLabel(saved) : deviceId;
+  try {
+    await window.ergApi.setAutoConnect(deviceId, toggle.checked);
+    appendLog(`Auto-connect ${toggle.checked ? 'enabled' : 'disabled'} for ${label}`);
+  } catch (error) {
+    console.error(error);
+    toggle.checked = !toggle.checked;
+    setStatus(`Failed to update auto-connect: ${(error as Error).message}`);
+    appendLog(`Failed to update auto-connect: ${(error as Error).message}`);
+  }
+});
+
 rescanDevicesButton?.addEventListener('click', async () => {
   if (rescanDevicesButton) rescanDevicesButton.disabled = true;
   deviceScanning = true;
@@ -811,27 +2627,62 @@ rescanDevicesButton?.addEventListener('click', async () => {
   }
 });
 
+calibrateButton?.addEventListener('click', async () => {
+  if (calibrateButton) calibrateButton.disabled = true;
+  try {
+    if (activeCalibration) {
+      await window.ergApi.cancelCalibration();
+    } else {
+      calibrationSpeedKph = undefined;
+      const calibration = await window.ergApi.calibrate();
+      activeCalibration = calibration.inProgress ? calibration : null;
+      appendLog('Spin down started');
+    }
+  } catch (error) {
+    console.error(error);
+    setStatus(`Calibration failed: ${(error as Error).message}`);
+    appendLog(`Calibration failed: ${(error as Error).message}`);
+  } finally {
+    if (calibrateButton) calibrateButton.disabled = false;
+    renderCalibration();
+  }
+});
+
 startButton?.addEventListener('click', async () => {
+  warnLowBatteries();
   try {
     const hasBlocks = blocks.length > 0;
     if (hasBlocks) {
       const totalDurationSec = getTotalDurationSec();
-      const firstTarget = blocks[0].targetWatts;
+      const steps = resolveFtpTargets(expandBlocks(blocks));
+      const firstTarget = getBlockTarget(steps[0]);
       await window.ergApi.start({
-        targetWatts: firstTarget,
+        targetWatts: firstTarget.targetWatts,
+        targetSlopePercent: firstTarget.targetSlopePercent,
+        targetResistanceLevel: firstTarget.targetResistanceLevel,
         durationSeconds: totalDurationSec > 0 ? totalDurationSec : undefined,
+        mode: 'guided',
+        workoutId: loadedWorkout?.id,
+        workoutLabel: loadedWorkout?.label,
       });
-      appendLog(`Structured session started (${blocks.length} blocks, ${formatSeconds(totalDurationSec)})`);
-      startStructuredSession();
+      appendLog(`Structured session started (${steps.length} blocks, ${formatSeconds(totalDurationSec)})`);
+      startStructuredSession(steps);
       lastConnected = true;
       lastRunning = true;
       updateButtons(true, true);
     } else {
       const watts = Number(targetInput?.value ?? 0);
+      const slope = Number(targetSlopeInput?.value ?? 0);
+      const resistance = Number(targetResistanceInput?.value ?? 0);
+      const isSlope = controlMode === 'slope';
+      const isResistance = controlMode === 'resistance';
       const manualDuration = Number(durationInput?.value ?? 0);
       await window.ergApi.start({
-        targetWatts: watts,
+        targetWatts: controlMode === 'erg' ? watts : undefined,
+        targetSlopePercent: isSlope ? slope : undefined,
+        targetResistanceLevel: isResistance ? resistance : undefined,
         durationSeconds: manualDuration > 0 ? manualDuration : undefined,
+        mode: 'freeRide',
       });
       clearTimers();
       resetStats();
@@ -846,7 +2697,9 @@ startButton?.addEventListener('click', async () => {
       lastConnected = true;
       lastRunning = true;
       updateButtons(true, true);
-      appendLog(`Manual ERG started @ ${Math.round(watts)} W${manualDuration > 0 ? ` for ${manualDuration}s` : ''}`);
+      const targetText = isSlope ? formatSlope(slope) : isResistance ? `level ${resistance}` : `${Math.round(watts)} W`;
+      const modeText = isSlope ? 'slope' : isResistance ? 'resistance' : 'ERG';
+      appendLog(`Manual ${modeText} started @ ${targetText}${manualDuration > 0 ? ` for ${manualDuration}s` : ''}`);
     }
   } catch (error) {
     console.error(error);
@@ -855,6 +2708,53 @@ startButton?.addEventListener('click', async () => {
   }
 });
 
+// Banks the elapsed time and stops the block timers. Runs once whether the
+// pause came from the Pause button or from the trainer.
+const pauseLocalSession = (): void => {
+  if (sessionPaused) return;
+  const now = Date.now();
+  if (sessionActive && sessionStartTime) {
+    sessionElapsedMs += now - sessionStartTime;
+    sessionStartTime = 0;
+  }
+  if (structuredSession && currentBlockIndex >= 0 && blockStartTime) {
+    blockElapsedMs += now - blockStartTime;
+    blockStartTime = 0;
+  }
+  sessionPaused = true;
+  lastRunning = false;
+  clearTimers();
+  updateProgress();
+  updateButtons(lastConnected, false);
+};
+
+const resumeLocalSession = (): void => {
+  if (!sessionPaused) return;
+  sessionPaused = false;
+  sessionActive = true;
+  sessionStartTime = Date.now();
+  if (structuredSession && currentBlockIndex >= 0 && runBlocks[currentBlockIndex]) {
+    const block = runBlocks[currentBlockIndex];
+    const remainingMs = Math.max(0, block.durationSec * 1000 - blockElapsedMs);
+    if (remainingMs <= 0) {
+      blockElapsedMs = 0;
+      advanceToNextBlock();
+    } else {
+      blockStartTime = Date.now();
+      scheduleBlockTimer(remainingMs);
+      // the trainer resumes at whatever was last written, which may lag the ramp
+      lastRampWrite = null;
+      updateRampTarget();
+    }
+  }
+  if (structuredSession && !progressInterval) {
+    progressInterval = setInterval(tickStructuredSession, 1000);
+  }
+  lastRunning = true;
+  updateButtons(lastConnected, true);
+  updateProgress();
+};
+
 pauseButton?.addEventListener('click', async () => {
   if (!sessionActive && !sessionPaused) {
     setStatus('No active session to pause.');
@@ -864,26 +2764,7 @@ pauseButton?.addEventListener('click', async () => {
   if (sessionPaused) {
     try {
       await window.ergApi.resume();
-      sessionPaused = false;
-      sessionActive = true;
-      sessionStartTime = Date.now();
-      if (structuredSession && currentBlockIndex >= 0 && blocks[currentBlockIndex]) {
-        const block = blocks[currentBlockIndex];
-        const remainingMs = Math.max(0, block.durationSec * 1000 - blockElapsedMs);
-        if (remainingMs <= 0) {
-          blockElapsedMs = 0;
-          advanceToNextBlock();
-        } else {
-          blockStartTime = Date.now();
-          scheduleBlockTimer(remainingMs);
-        }
-      }
-      if (structuredSession && !progressInterval) {
-        progressInterval = setInterval(updateProgress, 1000);
-      }
-      lastRunning = true;
-      updateButtons(lastConnected, true);
-      updateProgress();
+      resumeLocalSession();
       appendLog('ERG session resumed');
     } catch (error) {
       console.error(error);
@@ -895,20 +2776,7 @@ pauseButton?.addEventListener('click', async () => {
 
   try {
     await window.ergApi.pause();
-    const now = Date.now();
-    if (sessionActive && sessionStartTime) {
-      sessionElapsedMs += now - sessionStartTime;
-      sessionStartTime = 0;
-    }
-    if (structuredSession && currentBlockIndex >= 0 && blockStartTime) {
-      blockElapsedMs += now - blockStartTime;
-      blockStartTime = 0;
-    }
-    sessionPaused = true;
-    lastRunning = false;
-    clearTimers();
-    updateProgress();
-    updateButtons(lastConnected, false);
+    pauseLocalSession();
     appendLog('ERG session paused');
   } catch (error) {
     console.error(error);
@@ -918,6 +2786,7 @@ pauseButton?.addEventListener('click', async () => {
 });
 
 stopButton?.addEventListener('click', async () => {
+  stopRequested = true;
   try {
     await window.ergApi.stop();
     endStructuredSession('ERG session stopped');
@@ -925,10 +2794,50 @@ stopButton?.addEventListener('click', async () => {
     console.error(error);
     setStatus(`Failed to stop: ${(error as Error).message}`);
     appendLog(`Failed to stop: ${(error as Error).message}`);
+    // the controller ends the session even when the trainer missed the stop
+    endStructuredSession();
+  } finally {
+    stopRequested = false;
   }
 });
 
+const nudgeSlope = async (delta: number): Promise<void> => {
+  try {
+    const percent = await window.ergApi.nudgeSlope(delta);
+    if (typeof percent === 'number') {
+      updateSlopeLabel(percent);
+      appendLog(`Slope set to ${formatSlope(percent)}`);
+    }
+  } catch (error) {
+    console.error(error);
+    setStatus(`Failed to adjust slope: ${(error as Error).message}`);
+    appendLog(`Failed to adjust slope: ${(error as Error).message}`);
+  }
+};
+
+const nudgeResistance = async (delta: number): Promise<void> => {
+  try {
+    const level = await window.ergApi.nudgeResistance(delta);
+    if (typeof level === 'number') {
+      updateResistanceLabel(level);
+      appendLog(`Resistance set to level ${level}`);
+    }
+  } catch (error) {
+    console.error(error);
+    setStatus(`Failed to adjust resistance: ${(error as Error).message}`);
+    appendLog(`Failed to adjust resistance: ${(error as Error).message}`);
+  }
+};
+
 increaseButton?.addEventListener('click', async () => {
+  if (controlMode === 'slope') {
+    await nudgeSlope(0.5);
+    return;
+  }
+  if (controlMode === 'resistance') {
+    await nudgeResistance(1);
+    return;
+  }
   try {
     const watts = await window.ergApi.nudgeWatts(10);
     if (typeof watts === 'number') {
@@ -943,6 +2852,14 @@ increaseButton?.addEventListener('click', async () => {
 });
 
 decreaseButton?.addEventListener('click', async () => {
+  if (controlMode === 'slope') {
+    await nudgeSlope(-0.5);
+    return;
+  }
+  if (controlMode === 'resistance') {
+    await nudgeResistance(-1);
+    return;
+  }
   try {
     const watts = await window.ergApi.nudgeWatts(-10);
     if (typeof watts === 'number') {
@@ -958,11 +2875,16 @@ decreaseButton?.addEventListener('click', async () => {
 
 window.ergApi.onDevices((devices) => {
   discoveredDevices = devices;
-  const activeTrainer = devices.find((device) => device.connected && device.kind === 'trainer');
+  const activeTrainer = devices.find((device) => device.state === 'connected' && device.kind === 'trainer');
   connectedDeviceId = activeTrainer ? activeTrainer.id : null;
   renderDeviceList();
 });
 
+window.ergApi.onSavedDevices((devices) => {
+  savedDevices = devices;
+  renderDeviceList();
+});
+
 window.ergApi.onTelemetry((telemetry) => {
   if (telemetryPower && typeof telemetry.powerWatts === 'number') {
     telemetryPower.textContent = formatNumber(telemetry.powerWatts, ' W');
@@ -976,6 +2898,31 @@ window.ergApi.onTelemetry((telemetry) => {
   if (telemetryHeartRate && typeof telemetry.heartRateBpm === 'number') {
     telemetryHeartRate.textContent = formatNumber(telemetry.heartRateBpm, ' bpm');
   }
+  if (telemetryDistance && typeof telemetry.distanceMeters === 'number') {
+    telemetryDistance.textContent = formatNumber(telemetry.distanceMeters / 1000, ' km');
+  }
+  if (telemetryEnergy && typeof telemetry.energyKcal === 'number') {
+    telemetryEnergy.textContent = formatNumber(telemetry.energyKcal, ' kcal');
+  }
+  if (telemetryResistance && typeof telemetry.resistanceLevel === 'number') {
+    telemetryResistance.textContent = formatNumber(telemetry.resistanceLevel);
+  }
+  if (activeCalibration && typeof telemetry.speedKph === 'number') {
+    calibrationSpeedKph = telemetry.speedKph;
+    renderCalibration();
+  }
+
+  recordLiveSample({
+    power: telemetry.powerWatts,
+    heartRate: telemetry.heartRateBpm,
+    cadence: telemetry.cadenceRpm,
+    speed: telemetry.speedKph,
+  });
+  scheduleLiveChartDraw();
+
+  if (typeof telemetry.powerWatts === 'number' && structuredSession && sessionActive && !sessionPaused) {
+    addPowerTracePoint(getSessionElapsedSec(), telemetry.powerWatts);
+  }
 
   if (typeof telemetry.powerWatts === 'number') {
     overallStats.powerSum += telemetry.powerWatts;
@@ -1019,38 +2966,66 @@ window.ergApi.onTelemetry((telemetry) => {
 });
 
 window.ergApi.onStatus((status) => {
-  const stateLabel = status.running
-    ? 'Running'
-    : status.connected
-      ? 'Connected'
-      : status.scanning
-        ? 'Scanning'
-        : 'Idle';
-  const stateClass = status.running
-    ? 'running'
-    : status.connected
-      ? 'connected'
-      : status.scanning
-        ? 'scanning'
-        : 'idle';
+  const stateLabel = status.reconnecting
+    ? 'Reconnecting'
+    : status.running
+      ? 'Running'
+      : status.connected
+        ? 'Connected'
+        : status.scanning
+          ? 'Scanning'
+          : 'Idle';
+  const stateClass = status.reconnecting
+    ? 'scanning'
+    : status.running
+      ? 'running'
+      : status.connected
+        ? 'connected'
+        : status.scanning
+          ? 'scanning'
+          : 'idle';
 
   const message = status.message ? `${stateLabel} — ${status.message}` : stateLabel;
   setStatus(message);
   setConnectionState(stateLabel, stateClass);
-  sessionPaused = Boolean(status.paused);
+  // follow a pause, resume or stop pressed on the trainer itself
+  if (status.paused) {
+    pauseLocalSession();
+  } else if (status.running) {
+    resumeLocalSession();
+  } else if (status.connected && sessionActive && !stopRequested) {
+    endStructuredSession('Stopped on the trainer');
+  }
   deviceScanning = Boolean(status.scanning);
   if (status.connected && typeof status.deviceId === 'string') {
     connectedDeviceId = status.deviceId;
+    if (calibrationDeviceId !== status.deviceId) {
+      void loadCalibration(status.deviceId);
+    }
   } else if (!status.connected) {
     connectedDeviceId = null;
   }
+  if (calibrationPanel) {
+    calibrationPanel.hidden = !status.connected || !status.capabilities?.spinDownSupported;
+  }
   renderDeviceList();
-  updateButtons(status.connected, status.running);
+  // the session keeps going while the trainer reconnects, so stop/nudge stay available
+  updateButtons(status.connected || Boolean(status.reconnecting), status.running);
+  if (status.capabilities) {
+    applyCapabilities(status.capabilities);
+  }
+  if (powerSourceField) powerSourceField.hidden = !status.powerMeterConnected;
+  if (powerMatchField) powerMatchField.hidden = !status.powerMeterConnected;
+  if (wheelCircumferenceField) wheelCircumferenceField.hidden = !status.cadenceSensorConnected;
+  if (wheelCircumferenceInput && typeof status.wheelCircumferenceMm === 'number' && document.activeElement !== wheelCircumferenceInput) {
+    wheelCircumferenceInput.value = String(status.wheelCircumferenceMm);
+  }
+  if (powerSourceSelect && status.powerSource) powerSourceSelect.value = status.powerSource;
 
   lastConnected = status.connected;
   lastRunning = status.running;
 
-  if (!status.connected && sessionActive) {
+  if (!status.connected && !status.reconnecting && sessionActive) {
     endStructuredSession('Trainer disconnected');
   }
 
@@ -1064,9 +3039,92 @@ window.ergApi.onTargetWatts((watts) => {
   updateTargetLabel(watts);
 });
 
-updateTargetLabel(Number(targetInput?.value ?? 0));
+window.ergApi.onTargetSlope((percent) => {
+  updateSlopeLabel(percent);
+});
+
+window.ergApi.onTrainerMode((mode) => {
+  if (mode === 'erg' || mode === 'slope' || mode === 'resistance') {
+    setControlMode(mode);
+  }
+});
+
+window.ergApi.onPowerMatch((state) => {
+  if (powerMatchSelect) powerMatchSelect.value = state.enabled ? 'on' : 'off';
+  if (!powerMatchSummary) return;
+  powerMatchSummary.hidden = !state.enabled;
+  if (!state.active) {
+    powerMatchSummary.textContent = 'Power match: waiting for a running ERG session and power meter';
+    return;
+  }
+  const correction = `${state.offsetWatts >= 0 ? '+' : ''}${state.offsetWatts} W`;
+  const meter = typeof state.meterWatts === 'number' ? `, meter ${state.meterWatts} W` : '';
+  powerMatchSummary.textContent = `Power match: correction ${correction}${meter}`;
+});
+
+window.ergApi.onCalibration((calibration) => {
+  if (calibration.inProgress) {
+    activeCalibration = calibration;
+  } else {
+    activeCalibration = null;
+    lastCalibration = calibration;
+    appendLog(calibration.result === 'success' ? 'Calibration succeeded' : `Calibration failed: ${calibration.message ?? 'unknown error'}`);
+  }
+  renderCalibration();
+});
+
+window.ergApi.onMachineStatus((status) => {
+  appendLog(status.description);
+});
+
+window.ergApi.onControlError((failure) => {
+  const message = failure.reason === 'controlNotPermitted'
+    ? `Trainer refused ${failure.operation}: another app may be controlling it`
+    : `Trainer rejected ${failure.operation} (${failure.message})`;
+  setStatus(message);
+  appendLog(message);
+});
+
+window.ergApi.onTargetResistance((level) => {
+  updateResistanceLabel(level);
+});
+
+window.ergApi.onSessionRecord((session) => {
+  if (session.state === 'completed' || session.state === 'aborted') {
+    appendLog(`Ride saved (${session.state})`);
+  }
+  void loadSessionHistory();
+});
+
+window.ergApi.onFitExport((job) => {
+  trackFitJob(job);
+  renderSessionList();
+  if (job.status === 'completed') {
+    appendLog(`FIT file written to ${job.outputPath}`);
+  } else if (job.status === 'failed') {
+    appendLog(`FIT export failed: ${job.errorMessage ?? 'unknown error'}`);
+  }
+});
+
+setControlMode('erg');
+renderCalibration();
+void window.ergApi
+  .getRiderProfile()
+  .then(applyRiderProfile)
+  .catch((error: unknown) => {
+    console.error(error);
+  });
 deviceScanning = true;
 renderDeviceList();
+void window.ergApi
+  .listSavedDevices()
+  .then((devices) => {
+    savedDevices = devices;
+    renderDeviceList();
+  })
+  .catch((error: unknown) => {
+    console.error(error);
+  });
 void window.ergApi.startDiscovery().catch((error: unknown) => {
   console.error(error);
   setStatus(`Failed to start discovery: ${(error as Error).message}`);
@@ -1082,3 +3140,15 @@ setConnectionState('Idle', 'idle');
 renderBlocks();
 updateProgress();
 updateMetricsDisplay();
+void loadSessionHistory();
+void loadWorkoutLibrary();
+void window.ergApi
+  .getActiveSession()
+  .then((session) => {
+    if (session) {
+      appendLog(`Recording in progress since ${new Date(session.startedAt).toLocaleTimeString()}`);
+    }
+  })
+  .catch((error: unknown) => {
+    console.error(error);
+  });
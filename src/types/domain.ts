@@ -25,11 +25,18 @@ export interface DeviceSnapshot {
   metrics: DeviceMetric[];
   state: DeviceConnectionState;
   preferredPowerSource?: boolean;
+  /** Speed/cadence sensors only: wheel size used to derive speed. */
+  wheelCircumferenceMm?: number;
+  /** Remembered devices are connected as soon as they advertise unless this is false. */
+  autoConnect?: boolean;
   lastSeenAt?: string;
   firmwareVersion?: string;
   serialNumber?: string;
 }
 
+/** What the rider is asked to do while a spin down runs. */
+export type CalibrationStep = 'speedUp' | 'stopPedaling';
+
 export interface DeviceCalibrationState {
   deviceId: string;
   inProgress: boolean;
@@ -37,10 +44,26 @@ export interface DeviceCalibrationState {
   completedAt?: string;
   result?: 'success' | 'failure';
   message?: string;
+  step?: CalibrationStep;
+  /** Speed window the trainer coasts through during the spin down. */
+  targetSpeedLowKph?: number;
+  targetSpeedHighKph?: number;
+}
+
+/** Rider physiology used to resolve relative targets and derive ride metrics. */
+export interface RiderProfile {
+  ftpWatts?: number;
+  weightKg?: number;
+  maxHeartRateBpm?: number;
+  lactateThresholdHeartRateBpm?: number;
+  updatedAt?: string;
 }
 
 export type TrainerMode = 'erg' | 'slope' | 'level' | 'resistance';
 
+/** Where recorded power and cadence come from; the trainer is always the one controlled. */
+export type PowerSource = 'trainer' | 'powerMeter';
+
 export interface TrainerSettings {
   deviceId: string;
   mode: TrainerMode;
@@ -50,7 +73,17 @@ export interface TrainerSettings {
   lastUpdatedAt: string;
 }
 
-export type WorkoutBlockType = 'target' | 'freeRide';
+/**
+ * Ramp blocks go linearly from `targetPowerWatts` to `targetPowerEndWatts`
+ * over the block. Repeat blocks run their child `blocks` `repeatCount` times.
+ */
+export type WorkoutBlockType = 'target' | 'ramp' | 'repeat' | 'freeRide';
+
+/** Text shown to the rider `offsetSeconds` into a block. */
+export interface WorkoutCue {
+  offsetSeconds: number;
+  message: string;
+}
 
 export interface WorkoutBlock {
   id: string;
@@ -58,7 +91,15 @@ export interface WorkoutBlock {
   type: WorkoutBlockType;
   durationSeconds: number;
   targetPowerWatts?: number;
+  targetPowerEndWatts?: number;
+  /** Relative targets, resolved against the rider's FTP when the ride starts. */
+  targetPowerPercentFtp?: number;
+  targetPowerEndPercentFtp?: number;
+  targetSlopePercent?: number;
   notes?: string;
+  cues?: WorkoutCue[];
+  repeatCount?: number;
+  blocks?: WorkoutBlock[];
 }
 
 export interface WorkoutBlockDraft {
@@ -67,9 +108,19 @@ export interface WorkoutBlockDraft {
   type: WorkoutBlockType;
   durationSeconds: number;
   targetPowerWatts?: number;
+  targetPowerEndWatts?: number;
+  targetPowerPercentFtp?: number;
+  targetPowerEndPercentFtp?: number;
+  targetSlopePercent?: number;
   notes?: string;
+  cues?: WorkoutCue[];
+  repeatCount?: number;
+  blocks?: WorkoutBlockDraft[];
 }
 
+/** Files workouts can be exported to for other training apps. */
+export type WorkoutFileFormat = 'zwo' | 'erg' | 'mrc';
+
 export interface CreateWorkoutInput {
   label: string;
   description?: string;
@@ -95,6 +146,8 @@ export interface Workout {
   description?: string;
   createdAt: string;
   updatedAt: string;
+  /** Derived from the blocks each time the workout or the rider's FTP changes. */
+  durationSeconds?: number;
   estimatedTss?: number;
   intensityFactor?: number;
   blocks: WorkoutBlock[];
@@ -112,6 +165,8 @@ export interface SessionMetrics {
   averageCadenceRpm?: number;
   averageHeartRateBpm?: number;
   maxHeartRateBpm?: number;
+  distanceMeters?: number;
+  energyKcal?: number;
   trainingStressScore?: number;
   intensityFactor?: number;
 }
@@ -121,6 +176,8 @@ export interface SessionBlockProgress {
   label: string;
   type: WorkoutBlockType | 'freeRide';
   targetPowerWatts?: number;
+  targetPowerEndWatts?: number;
+  targetSlopePercent?: number;
   startOffsetSeconds: number;
   durationSeconds: number;
   completedSeconds: number;
@@ -135,6 +192,8 @@ export interface TelemetrySample {
   distanceMeters?: number;
   trainerMode?: TrainerMode;
   resistanceLevel?: number;
+  energyKcal?: number;
+  elapsedTimeSeconds?: number;
 }
 
 export interface SessionRecord {
@@ -151,6 +210,8 @@ export interface SessionRecord {
   telemetry: TelemetrySample[];
 }
 
+export type SessionSummary = Omit<SessionRecord, 'telemetry'>;
+
 export interface SessionUpsertInput extends Omit<SessionRecord, 'id'> {
   id?: string;
 }
@@ -172,6 +233,10 @@ export interface PersistentStoreSchema {
   devices: DeviceSnapshot[];
   trainerSettings: TrainerSettings[];
   workouts: Workout[];
-  sessions: SessionRecord[];
+  /** Telemetry is kept in a file per session, see PersistentStore. */
+  sessions: SessionSummary[];
   fitExports: FitExportJob[];
+  /** Last spin-down result per trainer. */
+  calibrations: DeviceCalibrationState[];
+  riderProfile: RiderProfile;
 }